@@ -1,122 +1,20 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { GameState, Puzzle, Interaction, Difficulty, HistoryEntry } from './types';
-import { generateNewPuzzle, evaluateInteraction, generateHint } from './geminiService';
-
-// Data validation functions
-const validateHistoryEntry = (entry: any): entry is HistoryEntry => {
-  return (
-    entry &&
-    typeof entry === 'object' &&
-    typeof entry.id === 'string' &&
-    typeof entry.timestamp === 'number' &&
-    entry.timestamp > 0 &&
-    entry.puzzle &&
-    typeof entry.puzzle.title === 'string' &&
-    typeof entry.puzzle.surface === 'string' &&
-    typeof entry.puzzle.bottom === 'string' &&
-    ['Easy', 'Medium', 'Hard'].includes(entry.puzzle.difficulty) &&
-    typeof entry.interactionsCount === 'number' &&
-    typeof entry.hintsUsed === 'number' &&
-    ['Solved', 'Surrendered'].includes(entry.status)
-  );
-};
-
-const validateSessionData = (data: any): boolean => {
-  return (
-    data &&
-    typeof data === 'object' &&
-    ['MENU', 'RULES', 'LOADING', 'PLAYING', 'FINISHED', 'HISTORY'].includes(data.gameState) &&
-    (!data.currentPuzzle || (
-      data.currentPuzzle.title &&
-      data.currentPuzzle.surface &&
-      data.currentPuzzle.bottom &&
-      ['Easy', 'Medium', 'Hard'].includes(data.currentPuzzle.difficulty)
-    )) &&
-    Array.isArray(data.history) &&
-    typeof data.input === 'string' &&
-    typeof data.hintsRemaining === 'number' &&
-    typeof data.hintIndex === 'number' &&
-    typeof data.timestamp === 'number'
-  );
-};
-
-const safeParseHistoryData = (jsonString: string): HistoryEntry[] => {
-  try {
-    const parsed = JSON.parse(jsonString);
-    if (!Array.isArray(parsed)) {
-      throw new Error('History data is not an array');
-    }
-
-    // Filter out invalid entries and keep only valid ones
-    const validEntries = parsed.filter(validateHistoryEntry);
-
-    // If we lost some entries, log a warning
-    if (validEntries.length < parsed.length) {
-      console.warn(`Filtered out ${parsed.length - validEntries.length} invalid history entries`);
-    }
-
-    return validEntries;
-  } catch (error) {
-    console.error('Failed to parse history data:', error);
-    return [];
-  }
-};
-
-const safeParseSessionData = (jsonString: string): any => {
-  try {
-    const parsed = JSON.parse(jsonString);
-    if (validateSessionData(parsed)) {
-      return parsed;
-    } else {
-      throw new Error('Session data validation failed');
-    }
-  } catch (error) {
-    console.error('Failed to parse session data:', error);
-    return null;
-  }
-};
-
-// Safe localStorage operations with quota checking
-const safeLocalStorageSet = (key: string, value: string): boolean => {
-  try {
-    localStorage.setItem(key, value);
-    return true;
-  } catch (error) {
-    // Check if it's a quota exceeded error
-    if (error instanceof DOMException && (
-      error.code === 22 || // QUOTA_EXCEEDED_ERR
-      error.code === 1014 || // NS_ERROR_DOM_QUOTA_REACHED
-      error.name === 'QuotaExceededError' ||
-      error.name === 'NS_ERROR_DOM_QUOTA_REACHED'
-    )) {
-      console.warn('localStorage quota exceeded, clearing old data and retrying');
-
-      // Try to clear some space by removing old history entries
-      try {
-        const history = localStorage.getItem('kingdom_secrets_history');
-        if (history) {
-          const parsed = JSON.parse(history);
-          if (Array.isArray(parsed) && parsed.length > 10) {
-            // Keep only the most recent 10 entries
-            const trimmed = parsed.slice(0, 10);
-            localStorage.setItem('kingdom_secrets_history', JSON.stringify(trimmed));
-          }
-        }
-
-        // Try again
-        localStorage.setItem(key, value);
-        return true;
-      } catch (retryError) {
-        console.error('Failed to save to localStorage even after cleanup:', retryError);
-        return false;
-      }
-    }
-
-    console.error('Failed to save to localStorage:', error);
-    return false;
-  }
-};
+import React, { useState, useEffect, useRef, useSyncExternalStore } from 'react';
+import { GameState, Difficulty, HistoryEntry, Interaction, PackSummary, DailyUsage, BudgetStatus } from './types';
+import { isRulingOverridden } from './consistency';
+import { getKeyFacts, getUncoveredFactIndexes } from './keyFacts';
+import { fetchPackSummary, fetchServerStatus, fetchUsage, fetchModelRouting, saveModelRouting, describeFailure, gameMasterOracle } from './gameMasterClient';
+import { MODEL_OPERATIONS, MODEL_OPERATION_LABELS, ModelRoutingConfig, validateModelRouting } from './modelRouting';
+import { formatTokens, formatUsage, summarizeUsageByDay, summarizeUsageByDifficulty } from './usage';
+import { MAX_PROFILE_NAME_LENGTH, MAX_SAVE_SLOTS, MAX_SLOT_NAME_LENGTH, createGameEngine } from './gameEngine';
+import { SavedSession } from './savedGames';
+import { computeDetectiveStats, formatAverage, formatRate } from './detectiveStats';
+import { UNNAMED_DETECTIVE, buildLeaderboard, formatScore } from './scoring';
+import { ARCHIVE_EXPORT_FILES, ArchiveExportKind, archiveFileName, exportArchive, importArchive, mergeArchive } from './archiveTransfer';
+import { ACHIEVEMENTS, computeAchievements, entriesOfPlayer, grandestTitle } from './achievements';
+import { findDailyEntry, findDailySlot, formatDailyShare, todayKey } from './dailyCase';
+import { createBrowserAudio } from './browserAudio';
+import { createBrowserStorage } from './browserStorage';
 
 // Input sanitizer to prevent XSS attacks and handle problematic characters
 const sanitizeInput = (input: string): string => {
@@ -146,77 +44,109 @@ const sanitizeInput = (input: string): string => {
   return sanitized;
 };
 
+
+// How long an unfinished case may sit untouched before its save slot is dropped
+const SLOT_EXPIRY_CHOICES: { label: string; hours: number | null }[] = [
+  { label: '1 hour', hours: 1 },
+  { label: '8 hours', hours: 8 },
+  { label: '1 day', hours: 24 },
+  { label: '1 week', hours: 24 * 7 },
+  { label: 'Never', hours: null }
+];
+
+// Hands a generated file to the browser as a download
+const downloadText = (fileName: string, text: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Time since the case opened, as m:ss (or h:mm:ss for long cases)
+const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
 const App: React.FC = () => {
-  console.log('🎮 App component loaded');
-  console.log('🔧 Checking environment variables...');
-  console.log('API Key present:', import.meta.env['VITE_GEMINI_API_KEY'] ? 'YES' : 'NO');
-  console.log('API Key value:', import.meta.env['VITE_GEMINI_API_KEY']);
-  const [gameState, setGameState] = useState<GameState>(GameState.MENU);
-  const [currentPuzzle, setCurrentPuzzle] = useState<Puzzle | null>(null);
-  const [history, setHistory] = useState<Interaction[]>([]);
-  const [input, setInput] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
+  // The rules of play live in the game engine; this component renders its snapshot and forwards player events
+  const [audio] = useState(createBrowserAudio);
+  const [storage] = useState(createBrowserStorage);
+  const [engine] = useState(() => createGameEngine({ oracle: gameMasterOracle, storage, audio }));
+  const snapshot = useSyncExternalStore(engine.subscribe, engine.getSnapshot);
+  const {
+    gameState,
+    currentCase,
+    revealedPuzzle,
+    history,
+    draft: input,
+    hintsRemaining,
+    isLoading,
+    error: failure,
+    lastAction,
+    inquiryNotice,
+    archive: historyLog,
+    slots,
+    settings,
+    lastScore,
+    unlockedAchievements,
+    profiles,
+    activeProfileId,
+    dailyAttempts
+  } = snapshot;
+  const error = failure?.message ?? null;
+  const canRetry = failure?.retryable ?? true;
+
   const [loadingProgress, setLoadingProgress] = useState(0);
-  const [hintsRemaining, setHintsRemaining] = useState(0);
-  const [hintIndex, setHintIndex] = useState(0);
-  const [historyLog, setHistoryLog] = useState<HistoryEntry[]>([]);
-  const [error, setError] = useState<string | null>(null);
-  const [lastAction, setLastAction] = useState<{type: 'question' | 'guess' | 'hint' | 'start', input?: string} | null>(null);
-  
+  const [packSummary, setPackSummary] = useState<PackSummary[]>([]);
+  const { packOnly } = settings;
+  const [serverUsage, setServerUsage] = useState<{ today: DailyUsage | null; budget: BudgetStatus } | null>(null);
+  const [caseTtlHours, setCaseTtlHours] = useState<number | null>(null); // How long the game master keeps an untouched case
+  const [routing, setRouting] = useState<ModelRoutingConfig | null>(null);
+  const [routingDraft, setRoutingDraft] = useState('');
+  const [routingErrors, setRoutingErrors] = useState<string[]>([]);
+  const [routingSaved, setRoutingSaved] = useState(false);
+  const [replay, setReplay] = useState<{ entry: HistoryEntry; step: number } | null>(null); // An archived case being stepped through
+  const [renamingSlot, setRenamingSlot] = useState<{ slotId: string; name: string } | null>(null);
+  const [abandoningSlot, setAbandoningSlot] = useState<string | null>(null); // Asks once more before a case is thrown away
+  const [storageProblem, setStorageProblem] = useState<string | null>(null); // Saving trouble the player should know about
+  const [importReport, setImportReport] = useState<{ added: number; duplicates: number; errors: string[] } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [newProfileName, setNewProfileName] = useState<string | null>(null); // The name being typed for a new detective
+  const [statsPlayer, setStatsPlayer] = useState<string>('all'); // Whose cases the statistics cover: 'all', a profile id or 'none'
+  const [shareState, setShareState] = useState<'idle' | 'copied' | 'failed'>('idle'); // The daily result's copy button
   const historyEndRef = useRef<HTMLDivElement>(null);
+  const replayEndRef = useRef<HTMLDivElement>(null);
   const progressInterval = useRef<number | null>(null);
-  const audioContext = useRef<AudioContext | null>(null);
-  const isProcessingRef = useRef(false); // Additional guard against race conditions
-  const audioInitAttempts = useRef(0); // Track failed audio initialization attempts
-  const audioDisabled = useRef(false); // Flag to prevent repeated failed attempts
-
-  const getAudioContext = () => {
-    // If audio is disabled or we've failed too many times, don't try again
-    if (audioDisabled.current || audioInitAttempts.current >= 3) {
-      return null;
-    }
 
-    if (!audioContext.current) {
-      try {
-        // Check for AudioContext support
-        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-        if (!AudioContextClass) {
-          console.warn('AudioContext not supported in this browser');
-          audioDisabled.current = true;
-          return null;
-        }
-
-        audioContext.current = new AudioContextClass();
-        audioInitAttempts.current++;
-
-        // Resume context if suspended (required by some browsers)
-        if (audioContext.current.state === 'suspended') {
-          audioContext.current.resume().catch((err: unknown) => {
-            console.warn('Failed to resume AudioContext:', err);
-            // If resume fails, disable audio for this session
-            audioDisabled.current = true;
-          });
-        }
-      } catch (error) {
-        console.warn('Failed to create AudioContext:', error);
-        audioDisabled.current = true;
-        return null;
-      }
-    }
-    return audioContext.current;
-  };
+  const playSfx = audio.play;
 
   useEffect(() => {
-    const saved = localStorage.getItem('kingdom_secrets_history');
-    if (saved) {
-      const validatedHistory = safeParseHistoryData(saved);
-      setHistoryLog(validatedHistory);
-    }
-
-    // Try to restore game session
-    loadGameSession();
+    const unsubscribe = storage.onProblem(setStorageProblem);
+    // Reads the archive, the settings and the unfinished cases
+    engine.dispatch({ type: 'LOAD' });
+
+    fetchPackSummary()
+      .then(setPackSummary)
+      .catch((packError: unknown) => console.warn('Failed to load puzzle pack summary:', packError));
+    fetchServerStatus()
+      .then(status => setCaseTtlHours(status.caseTtlHours))
+      .catch((statusError: unknown) => console.warn('Failed to load the game master status:', statusError));
+    return unsubscribe;
   }, []);
 
+  // A slot cannot outlive its case on the game master, so an expiry setting beyond that is brought down to it
+  useEffect(() => {
+    if (caseTtlHours === null || (settings.slotExpiryHours !== null && settings.slotExpiryHours <= caseTtlHours)) return;
+    const longest = SLOT_EXPIRY_CHOICES.filter(choice => choice.hours !== null && choice.hours <= caseTtlHours).pop();
+    engine.dispatch({ type: 'UPDATE_SETTINGS', settings: { slotExpiryHours: longest?.hours ?? caseTtlHours } });
+  }, [caseTtlHours, settings.slotExpiryHours]);
+
   useEffect(() => {
     // Always clear any existing interval first to prevent race conditions
     if (progressInterval.current) {
@@ -248,211 +178,18 @@ const App: React.FC = () => {
     };
   }, [isLoading]);
 
-  // Cleanup AudioContext and intervals on unmount
+  // Cleanup AudioContext, intervals and pending requests on unmount
   useEffect(() => {
     return () => {
-      // Clear any remaining intervals
       if (progressInterval.current) {
         clearInterval(progressInterval.current);
         progressInterval.current = null;
       }
-
-      // Close AudioContext
-      if (audioContext.current && audioContext.current.state !== 'closed') {
-        audioContext.current.close().catch((err: unknown) => {
-          console.warn('Failed to close AudioContext:', err);
-        });
-      }
-
-      // Reset audio state for potential re-initialization
-      audioInitAttempts.current = 0;
-      audioDisabled.current = false;
+      audio.dispose();
+      engine.dispose();
     };
   }, []);
 
-  const saveToHistory = (status: 'Solved' | 'Surrendered') => {
-    if (!currentPuzzle) return;
-    const entry: HistoryEntry = {
-      id: Date.now().toString(),
-      timestamp: Date.now(),
-      puzzle: currentPuzzle,
-      interactionsCount: history.filter((i: Interaction) => i.type === 'question' || i.type === 'guess').length,
-      hintsUsed: history.filter((i: Interaction) => i.type === 'hint').length,
-      status
-    };
-    const newLog = [entry, ...historyLog].slice(0, 50);
-    setHistoryLog(newLog);
-    safeLocalStorageSet('kingdom_secrets_history', JSON.stringify(newLog));
-    // Clear session data when game ends
-    localStorage.removeItem('kingdom_secrets_session');
-  };
-
-  const saveGameSession = () => {
-    if (gameState === GameState.PLAYING && currentPuzzle) {
-      const sessionData = {
-        gameState,
-        currentPuzzle,
-        history,
-        input,
-        hintsRemaining,
-        hintIndex,
-        timestamp: Date.now()
-      };
-      const success = safeLocalStorageSet('kingdom_secrets_session', JSON.stringify(sessionData));
-      if (!success) {
-        console.warn('Failed to save game session due to storage limitations');
-      }
-    }
-  };
-
-  const loadGameSession = () => {
-    try {
-      const saved = localStorage.getItem('kingdom_secrets_session');
-      if (saved) {
-        const sessionData = safeParseSessionData(saved);
-        if (sessionData) {
-          // Only restore if it's recent (within last hour)
-          if (sessionData.timestamp && Date.now() - sessionData.timestamp < 3600000) {
-            setGameState(sessionData.gameState || GameState.MENU);
-            setCurrentPuzzle(sessionData.currentPuzzle || null);
-            setHistory(sessionData.history || []);
-            setInput(sessionData.input || '');
-            setHintsRemaining(sessionData.hintsRemaining || 0);
-            setHintIndex(sessionData.hintIndex || 0);
-            return true;
-          } else {
-            // Clear expired session
-            localStorage.removeItem('kingdom_secrets_session');
-          }
-        } else {
-          // Clear corrupted session data
-          localStorage.removeItem('kingdom_secrets_session');
-        }
-      }
-    } catch (error) {
-      console.warn('Failed to load game session:', error);
-      localStorage.removeItem('kingdom_secrets_session');
-    }
-    return false;
-  };
-
-  const playSfx = (type: 'yes' | 'no' | 'correct' | 'click' | 'wood' | 'tick' | 'hint' | 'solve_fail') => {
-    try {
-      const ctx = getAudioContext();
-      if (!ctx) {
-        console.debug('Audio not available, skipping sound effect');
-        return;
-      }
-      const gain = ctx.createGain();
-      gain.connect(ctx.destination);
-      const now = ctx.currentTime;
-
-      switch(type) {
-        case 'yes': {
-          const yOsc = ctx.createOscillator();
-          yOsc.connect(gain);
-          yOsc.type = 'square';
-          yOsc.frequency.setValueAtTime(523.25, now);
-          yOsc.frequency.exponentialRampToValueAtTime(659.25, now + 0.1);
-          gain.gain.setValueAtTime(0.45, now); // Increased volume
-          gain.gain.exponentialRampToValueAtTime(0.001, now + 0.2);
-          yOsc.start();
-          yOsc.stop(now + 0.2);
-          break;
-        }
-        case 'no': {
-          const nOsc = ctx.createOscillator();
-          nOsc.connect(gain);
-          nOsc.type = 'sawtooth';
-          nOsc.frequency.setValueAtTime(220, now);
-          nOsc.frequency.exponentialRampToValueAtTime(110, now + 0.15);
-          gain.gain.setValueAtTime(0.4, now); // Increased volume
-          gain.gain.exponentialRampToValueAtTime(0.001, now + 0.2);
-          nOsc.start();
-          nOsc.stop(now + 0.2);
-          break;
-        }
-        case 'correct': {
-          [523, 659, 783, 1046].forEach((f, i) => {
-            const o = ctx.createOscillator();
-            const g = ctx.createGain();
-            o.connect(g); g.connect(ctx.destination);
-            o.frequency.setValueAtTime(f, now + i * 0.1);
-            g.gain.setValueAtTime(0.35, now + i * 0.1); // Increased volume
-            g.gain.exponentialRampToValueAtTime(0.001, now + i * 0.1 + 0.3);
-            o.start(now + i * 0.1);
-            o.stop(now + i * 0.1 + 0.3);
-          });
-          break;
-        }
-        case 'solve_fail': {
-          const sfOsc = ctx.createOscillator();
-          sfOsc.connect(gain);
-          sfOsc.type = 'sine';
-          sfOsc.frequency.setValueAtTime(150, now);
-          sfOsc.frequency.setValueAtTime(100, now + 0.1);
-          gain.gain.setValueAtTime(0.6, now); // Increased volume
-          gain.gain.linearRampToValueAtTime(0, now + 0.3);
-          sfOsc.start();
-          sfOsc.stop(now + 0.3);
-          break;
-        }
-        case 'click': {
-          const clOsc = ctx.createOscillator();
-          clOsc.connect(gain);
-          clOsc.type = 'sine';
-          clOsc.frequency.setValueAtTime(120, now);
-          clOsc.frequency.exponentialRampToValueAtTime(40, now + 0.08);
-          gain.gain.setValueAtTime(0.6, now); // Increased volume
-          gain.gain.exponentialRampToValueAtTime(0.001, now + 0.08);
-          clOsc.start();
-          clOsc.stop(now + 0.08);
-          break;
-        }
-        case 'wood': {
-          // The preferred wood knock - reinforced for higher volume
-          const bandPass = ctx.createBiquadFilter();
-          bandPass.type = 'bandpass';
-          bandPass.frequency.setValueAtTime(300, now);
-          bandPass.Q.setValueAtTime(5, now);
-          bandPass.connect(gain);
-          const wOsc = ctx.createOscillator();
-          wOsc.type = 'sine';
-          wOsc.frequency.setValueAtTime(220, now);
-          wOsc.connect(bandPass);
-          gain.gain.setValueAtTime(0.8, now); // Maximum preferred volume
-          gain.gain.exponentialRampToValueAtTime(0.001, now + 0.3);
-          wOsc.start();
-          wOsc.stop(now + 0.3);
-          break;
-        }
-        case 'tick': {
-          const tOsc = ctx.createOscillator();
-          tOsc.connect(gain);
-          tOsc.type = 'triangle';
-          tOsc.frequency.setValueAtTime(200, now);
-          gain.gain.setValueAtTime(0.15, now); // Increased volume
-          gain.gain.exponentialRampToValueAtTime(0.001, now + 0.05);
-          tOsc.start();
-          tOsc.stop(now + 0.05);
-          break;
-        }
-        case 'hint': {
-          const hOsc = ctx.createOscillator();
-          hOsc.connect(gain);
-          hOsc.type = 'sine';
-          hOsc.frequency.setValueAtTime(880, now);
-          hOsc.frequency.exponentialRampToValueAtTime(1320, now + 0.2);
-          gain.gain.setValueAtTime(0.4, now); // Increased volume
-          gain.gain.exponentialRampToValueAtTime(0.001, now + 0.3);
-          hOsc.start();
-          hOsc.stop(now + 0.3);
-          break;
-        }
-      }
-    } catch (e) {}
-  };
-
   const scrollToBottom = () => {
     historyEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
@@ -463,183 +200,285 @@ const App: React.FC = () => {
     }
   }, [history, gameState]);
 
-  // Save game session whenever relevant state changes
   useEffect(() => {
-    if (gameState === GameState.PLAYING) {
-      saveGameSession();
-    }
-  }, [gameState, currentPuzzle, history, input, hintsRemaining, hintIndex]);
+    replayEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [replay]);
 
-  const startGame = async (difficulty: Difficulty) => {
-    console.log('🚀 startGame called with difficulty:', difficulty);
-    playSfx('click');
-    if (isLoading || isProcessingRef.current) {
-      console.log('⚠️ Game already loading, skipping');
+  // The daily budget can move while a case is played, so look again whenever the menu or the archives open
+  useEffect(() => {
+    if (gameState !== GameState.MENU && gameState !== GameState.HISTORY) return;
+    fetchUsage()
+      .then(setServerUsage)
+      .catch((usageError: unknown) => console.warn('Failed to load oracle usage:', usageError));
+  }, [gameState]);
+
+  const navigateTo = (state: GameState) => {
+    setReplay(null);
+    setRenamingSlot(null);
+    setAbandoningSlot(null);
+    setImportReport(null);
+    setShareState('idle');
+    return engine.dispatch({ type: 'NAVIGATE', to: state });
+  };
+  const startGame = (difficulty: Difficulty) => engine.dispatch({ type: 'START_CASE', difficulty, packOnly });
+  const startDaily = () => {
+    setShareState('idle');
+    return engine.dispatch({ type: 'START_DAILY' });
+  };
+  const setInput = (text: string) => engine.dispatch({ type: 'EDIT_DRAFT', text });
+  const handleAction = (isGuess: boolean, force = false) => {
+    return engine.dispatch(isGuess ? { type: 'SOLVE', text: input } : { type: 'ASK', text: input, force });
+  };
+  const handleHint = () => engine.dispatch({ type: 'REQUEST_HINT' });
+  const handleSurrender = () => engine.dispatch({ type: 'SURRENDER' });
+  const retryLastAction = () => engine.dispatch({ type: 'RETRY' });
+  const resumeSlot = (slotId: string) => {
+    setRenamingSlot(null);
+    setAbandoningSlot(null);
+    return engine.dispatch({ type: 'RESUME_CASE', slotId });
+  };
+  const saveSlotName = () => {
+    if (!renamingSlot) return;
+    engine.dispatch({ type: 'RENAME_SLOT', slotId: renamingSlot.slotId, name: renamingSlot.name });
+    setRenamingSlot(null);
+  };
+  const abandonSlot = (slotId: string) => {
+    if (abandoningSlot !== slotId) {
+      playSfx('click');
+      setAbandoningSlot(slotId);
       return;
     }
-    isProcessingRef.current = true;
-    setLastAction({ type: 'start' });
-    setIsLoading(true);
-    setError(null);
-    setGameState(GameState.LOADING);
-    setHistory([]);
-    setHintIndex(0);
-    setHintsRemaining({ 'Easy': 3, 'Medium': 5, 'Hard': 7 }[difficulty]);
+    setAbandoningSlot(null);
+    return engine.dispatch({ type: 'DELETE_SLOT', slotId });
+  };
+  const createProfile = () => {
+    if (!newProfileName?.trim()) return;
+    engine.dispatch({ type: 'CREATE_PROFILE', name: newProfileName });
+    setNewProfileName(null);
+  };
+  const setSlotExpiry = (hours: number | null) => engine.dispatch({ type: 'UPDATE_SETTINGS', settings: { slotExpiryHours: hours } });
+  const dismissError = () => engine.dispatch({ type: 'DISMISS_ERROR' });
+
+  const openSettings = async () => {
+    navigateTo(GameState.SETTINGS);
+    setRoutingErrors([]);
+    setRoutingSaved(false);
     try {
-      // Create a comprehensive exclusion list to prevent similar puzzles
-      const exclusionData = historyLog.map(entry => ({
-        title: entry.puzzle.title,
-        surface: entry.puzzle.surface.substring(0, 100), // First 100 chars of surface text
-        bottom: entry.puzzle.bottom.substring(0, 100)   // First 100 chars of solution
-      }));
-      const exclusionStrings = exclusionData.flatMap(data => [data.title, data.surface, data.bottom]);
-      console.log('🔍 Calling generateNewPuzzle with exclusion count:', exclusionStrings.length);
-      console.log('🔑 API key check:', import.meta.env['VITE_GEMINI_API_KEY'] ? 'Present' : 'Missing');
-      try {
-        const puzzle = await generateNewPuzzle(difficulty, exclusionStrings);
-        console.log('✅ Puzzle generated:', { title: puzzle.title, difficulty: puzzle.difficulty });
-        setCurrentPuzzle(puzzle);
-        setGameState(GameState.PLAYING);
-        playSfx('wood');
-      } catch (generateError) {
-        console.error('❌ generateNewPuzzle threw error:', generateError);
-        throw generateError; // Re-throw so it gets caught by outer catch
-      }
-    } catch (error) {
-      console.error('❌ Failed to generate puzzle:', error);
-      setError('Failed to generate puzzle. Please try again.');
-      setGameState(GameState.MENU);
-    } finally {
-      setIsLoading(false);
-      isProcessingRef.current = false;
+      const current = await fetchModelRouting();
+      setRouting(current);
+      setRoutingDraft(JSON.stringify(current, null, 2));
+    } catch (routingError) {
+      console.error('Failed to load model routing:', routingError);
+      setRoutingErrors([describeFailure(routingError, 'The model routing could not be loaded.').message]);
     }
   };
 
-  const handleAction = async (isGuess: boolean, retryInput?: string) => {
+  // Checked here first for instant feedback; the game master validates again before it saves
+  const saveRouting = async () => {
     playSfx('click');
-    const inputToUse = retryInput || input;
-    if (!inputToUse.trim() || !currentPuzzle || isLoading || isProcessingRef.current) return;
-    isProcessingRef.current = true;
-    const currentInput = inputToUse;
-    if (!retryInput) setInput('');
-    setIsLoading(true);
-    setError(null);
+    setRoutingSaved(false);
+    let parsed: unknown;
     try {
-      const result = await evaluateInteraction(currentPuzzle, history, currentInput, isGuess);
-      setHistory((prev: Interaction[]) => [...prev, result]);
-
-      if (isGuess) {
-        if (result.status === 'Correct') {
-          playSfx('correct');
-          saveToHistory('Solved');
-          setTimeout(() => {
-            setGameState(GameState.FINISHED);
-            playSfx('wood');
-          }, 1200);
-        } else {
-          playSfx('solve_fail');
-        }
-      } else {
-        if (result.status === 'Yes') playSfx('yes');
-        else if (result.status === 'No') playSfx('no');
-        else playSfx('tick');
-      }
-    } catch (error) {
-      console.error('Failed to process interaction:', error);
-      setError('Failed to process your input. Please try again.');
-      // Restore the input so user doesn't lose their text
-      setInput(currentInput);
-    } finally {
-      setIsLoading(false);
-      isProcessingRef.current = false;
+      parsed = JSON.parse(routingDraft);
+    } catch (parseError) {
+      setRoutingErrors([`Not valid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`]);
+      return;
+    }
+    const { config, errors } = validateModelRouting(parsed, 'settings');
+    if (!config) {
+      setRoutingErrors(errors);
+      return;
     }
-  };
-
-  const handleHint = async () => {
-    if (!currentPuzzle || isLoading || hintsRemaining <= 0 || isProcessingRef.current) return;
-    isProcessingRef.current = true;
-    setLastAction({ type: 'hint' });
-    playSfx('hint');
-    setIsLoading(true);
-    setError(null);
-
-    // Always increment hint index when user requests a hint (for consistent numbering)
-    const currentHintIndex = hintIndex + 1;
-    setHintIndex(currentHintIndex);
-    setHintsRemaining((prev: number) => prev - 1); // Consume hint attempt immediately
-
     try {
-      const hintText = await generateHint(currentPuzzle, history, currentHintIndex);
-      setHistory((prev: Interaction[]) => [...prev, {
-        type: 'hint',
-        content: `Seek Clue (#${currentHintIndex})`,
-        response: hintText,
-        status: 'Clue'
-      }]);
-    } catch (error) {
-      console.error('Failed to generate hint:', error);
-      setError('Failed to generate hint. Please try again.');
-      // Hint was already consumed, but we can show it as failed in history
-      setHistory((prev: Interaction[]) => [...prev, {
-        type: 'hint',
-        content: `Seek Clue (#${currentHintIndex}) - Failed`,
-        response: 'Hint generation failed. Please try again.',
-        status: 'Clue'
-      }]);
-    } finally {
-      setIsLoading(false);
-      isProcessingRef.current = false;
+      const saved = await saveModelRouting(config);
+      setRouting(saved);
+      setRoutingDraft(JSON.stringify(saved, null, 2));
+      setRoutingErrors([]);
+      setRoutingSaved(true);
+      playSfx('wood');
+    } catch (saveError) {
+      console.error('Failed to save model routing:', saveError);
+      setRoutingErrors(describeFailure(saveError, 'The model routing could not be saved.').message.split('; '));
     }
   };
 
-  const handleSurrender = () => {
-    playSfx('click');
-    saveToHistory('Surrendered');
-    setGameState(GameState.FINISHED);
+  const openReplay = (entry: HistoryEntry) => {
     playSfx('wood');
+    setReplay({ entry, step: 0 });
   };
 
-  const retryLastAction = async () => {
-    if (!lastAction) return;
+  // Steps are clamped to the transcript: 0 shows only the surface, the last step also shows the truth
+  const stepReplay = (step: number) => {
+    if (!replay) return;
+    const last = replay.entry.transcript?.length ?? 0;
+    playSfx('tick');
+    setReplay({ entry: replay.entry, step: Math.max(0, Math.min(step, last)) });
+  };
 
-    setError(null);
-    setIsLoading(true);
+  const exportHistory = (kind: ArchiveExportKind) => {
+    playSfx('click');
+    downloadText(archiveFileName(kind), exportArchive(kind, historyLog), ARCHIVE_EXPORT_FILES[kind].mimeType);
+  };
 
+  // Merges exported archive files back in; duplicates and rejected records are reported, not silently dropped
+  const importHistoryFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    playSfx('click');
+    const results = await Promise.all(Array.from(files).map(async file => importArchive(await file.text(), file.name)));
+    const entries = results.flatMap(result => result.entries);
+    const { added, duplicates } = mergeArchive(historyLog, entries);
+    await engine.dispatch({ type: 'IMPORT_ARCHIVE', entries });
+    setImportReport({ added, duplicates, errors: results.flatMap(result => result.errors) });
+    if (importInputRef.current) importInputRef.current.value = ''; // Lets the same file be picked again
+  };
+
+  // Without clipboard access (an insecure origin, a refused permission) the player copies from the text box instead
+  const copyDailyShare = async (entry: HistoryEntry) => {
+    playSfx('click');
     try {
-      switch (lastAction.type) {
-        case 'question':
-          if (lastAction.input) {
-            await handleAction(false, lastAction.input);
-          }
-          break;
-        case 'guess':
-          if (lastAction.input) {
-            await handleAction(true, lastAction.input);
-          }
-          break;
-        case 'hint':
-          await handleHint();
-          break;
-        case 'start':
-          if (currentPuzzle?.difficulty) {
-            await startGame(currentPuzzle.difficulty);
-          }
-          break;
-      }
-    } catch (error) {
-      console.error('Retry failed:', error);
-      setError('Retry failed. Please try again or refresh the page.');
-    } finally {
-      setIsLoading(false);
+      await navigator.clipboard.writeText(formatDailyShare(entry));
+      setShareState('copied');
+    } catch (copyError) {
+      console.warn('Failed to copy the daily result:', copyError);
+      setShareState('failed');
     }
   };
 
-  const navigateTo = (state: GameState) => {
+  const togglePackOnly = () => {
     playSfx('click');
-    if (state === GameState.HISTORY || state === GameState.RULES) {
-      playSfx('wood');
-    }
-    setGameState(state);
+    return engine.dispatch({ type: 'UPDATE_SETTINGS', settings: { packOnly: !packOnly } });
+  };
+
+  const keyFacts = getKeyFacts(revealedPuzzle);
+  const keyFactCount = revealedPuzzle ? keyFacts.length : currentCase?.keyFactCount ?? 0;
+  const uncoveredFacts = getUncoveredFactIndexes(keyFactCount, history);
+  const packCaseCount = (difficulty?: Difficulty): number => {
+    return packSummary.reduce((total, pack) => total + (difficulty ? pack.counts[difficulty] : pack.counts.Easy + pack.counts.Medium + pack.counts.Hard), 0);
+  };
+
+  // How far an unfinished case has got, for the Continue list
+  const describeSlotProgress = (slot: SavedSession): string => {
+    const inquiries = slot.history.filter(item => item.type === 'question' || item.type === 'guess').length;
+    const hints = slot.history.filter(item => item.type === 'hint').length;
+    const { keyFactCount: factCount } = slot.currentCase;
+    return [
+      `${inquiries} ${inquiries === 1 ? 'inquiry' : 'inquiries'}`,
+      `${hints} ${hints === 1 ? 'hint' : 'hints'}`,
+      ...(factCount > 0 ? [`${getUncoveredFactIndexes(factCount, slot.history).size}/${factCount} facts`] : [])
+    ].join(' · ');
+  };
+
+  const today = todayKey();
+  const todaysDailyEntry = findDailyEntry(historyLog, today);
+  const todaysDailySlot = findDailySlot(slots, today);
+  const todaysDailyAbandoned = !todaysDailyEntry && !todaysDailySlot && dailyAttempts.includes(today);
+  const finishedDailyEntry = gameState === GameState.FINISHED && currentCase?.daily ? findDailyEntry(historyLog, currentCase.daily) : undefined;
+
+  const budget = serverUsage?.budget;
+  const budgetExhausted = budget?.state === 'exhausted';
+  const archiveUsageByDifficulty = summarizeUsageByDifficulty(historyLog);
+  const archiveUsageByDay = summarizeUsageByDay(historyLog, 7);
+  const statsEntries = statsPlayer === 'all' ? historyLog : historyLog.filter(entry => (entry.playerId ?? 'none') === statsPlayer);
+  const detectiveStats = gameState === GameState.STATS ? computeDetectiveStats(statsEntries) : null;
+  const leaderboard = gameState === GameState.STATS ? buildLeaderboard(historyLog, profiles) : [];
+  const earnedBadges = gameState === GameState.STATS ? computeAchievements(statsEntries) : [];
+  const detectiveTitle = gameState === GameState.MENU ? grandestTitle(computeAchievements(entriesOfPlayer(historyLog, activeProfileId))) : '';
+
+  // One turn of an inquiry log, live or replayed from the archive
+  const renderInteraction = (item: Interaction, idx: number, log: Interaction[]) => (
+    <div key={idx} className={`p-4 md:p-6 border-l-[8px] md:border-l-[12px] ${item.type === 'guess' && item.status === 'Close' ? 'border-[#c5a059] bg-amber-950/40' : item.type === 'guess' ? 'border-[#7b0000] bg-red-950/40' : item.type === 'hint' ? 'border-[#c5a059] bg-yellow-950/20' : 'border-[#444] bg-gray-900/60'} animate-page-entry`}>
+      <div className="mb-1 md:mb-2">
+        <span className="text-lg md:text-2xl text-gray-100 pixel-reading leading-relaxed font-bold">{item.content}</span>
+      </div>
+      {item.status && (
+        <div className="pl-3 md:pl-4 border-l-2 md:border-l-4 border-gray-800/50">
+          <span className={`text-lg md:text-2xl font-black ${item.status === 'Yes' ? 'text-green-400' : item.status === 'No' ? 'text-red-400' : item.status === 'Close' ? 'text-amber-400' : 'text-gray-400'} pixel-reading uppercase ${isRulingOverridden(log, idx) ? 'line-through opacity-50' : ''}`}>
+             {item.refused ? '▶ REFUSED' : item.status === 'Yes' ? '▶ YES' : item.status === 'No' ? '▶ NO' : item.status === 'Irrelevant' ? '▶ N/A' : item.status === 'Close' ? '▶ CLOSE' : `▶ ${item.status?.toUpperCase()}`}
+          </span>
+          {isRulingOverridden(log, idx) && (
+            <span className="ml-3 text-sm md:text-lg text-[#c5a059] pixel-reading uppercase">(amended)</span>
+          )}
+          {item.cached && (
+            <span className="ml-3 text-sm md:text-lg text-gray-500 pixel-reading uppercase" title="Answered from an earlier ruling on the same question">(from the record)</span>
+          )}
+        </div>
+      )}
+      {item.response && (
+        <div className="mt-1 md:mt-2 text-base md:text-xl text-gray-300 pixel-reading italic pl-3 md:pl-4 border-l border-[#555]">
+          {item.response}
+        </div>
+      )}
+      {item.status === 'Close' && (
+        <div className="mt-2 pl-3 md:pl-4 text-base md:text-xl pixel-reading space-y-1">
+          {item.matchedElements?.map((element, elementIdx) => (
+            <div key={`matched-${elementIdx}`} className="text-green-400">✓ {element}</div>
+          ))}
+          {item.missingElements?.map((element, elementIdx) => (
+            <div key={`missing-${elementIdx}`} className="text-gray-500">? {element}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  // The spoiler-free daily result, ready to paste into chat
+  const renderDailyShare = (entry: HistoryEntry) => (
+    <div className="text-left">
+      <textarea
+        readOnly
+        value={formatDailyShare(entry)}
+        rows={4}
+        onFocus={(e) => e.target.select()}
+        className="w-full bg-[#111] text-gray-200 p-2 border-2 border-gray-700 outline-none text-sm resize-none"
+        aria-label="Daily case result to share"
+      />
+      <div className="mt-1 flex gap-2 items-center justify-end">
+        {shareState !== 'idle' && (
+          <span className={`text-sm pixel-reading font-bold ${shareState === 'copied' ? 'text-green-400' : 'text-yellow-300'}`} role="status">
+            {shareState === 'copied' ? 'Copied. Paste it into chat.' : 'Copying failed; select the text and copy it.'}
+          </span>
+        )}
+        <button onClick={() => copyDailyShare(entry)} className="medieval-button px-3 py-1 text-[10px]" aria-label="Copy the daily case result">Copy</button>
+      </div>
+    </div>
+  );
+
+  const renderReplay = ({ entry, step }: { entry: HistoryEntry; step: number }) => {
+    const transcript = entry.transcript ?? [];
+    const shown = transcript.slice(0, step);
+    const startedAt = entry.startedAt ?? transcript[0]?.timestamp;
+    return (
+      <div className="flex-1 flex flex-col min-h-0">
+        <h4 className="text-2xl font-bold text-[#433422] mb-1">{entry.puzzle.title}</h4>
+        <p className="text-lg italic text-gray-700 mb-3">"{entry.puzzle.surface}"</p>
+        <div className="flex-1 overflow-y-auto stone-border bg-black/60 p-3 md:p-5 space-y-4" aria-live="polite">
+          {shown.length === 0 && <div className="text-gray-500 text-center py-12 uppercase text-xl pixel-reading tracking-widest italic">The case opens...</div>}
+          {shown.map((item, idx) => (
+            <div key={idx}>
+              {item.timestamp !== undefined && startedAt !== undefined && (
+                <div className="text-xs text-gray-500 font-bold mb-1">+{formatElapsed(item.timestamp - startedAt)}</div>
+              )}
+              {renderInteraction(item, idx, shown)}
+            </div>
+          ))}
+          {step === transcript.length && (
+            <div className="parchment p-4 border-l-4 border-[#7b0000] text-lg pixel-reading text-[#433422] font-bold">
+              <div className="text-[10px] text-[#8b4513] mb-1 font-black tracking-widest uppercase font-pixel-title">{entry.status}</div>
+              {entry.puzzle.bottom}
+            </div>
+          )}
+          <div ref={replayEndRef} />
+        </div>
+        <div className="mt-4 flex gap-2 items-center justify-center">
+          <button onClick={() => stepReplay(0)} disabled={step === 0} className="medieval-button px-3 py-2 text-[10px]" aria-label="First turn">⏮</button>
+          <button onClick={() => stepReplay(step - 1)} disabled={step === 0} className="medieval-button px-3 py-2 text-[10px]" aria-label="Previous turn">◀</button>
+          <span className="px-3 text-sm font-bold text-[#433422] pixel-reading">Turn {step}/{transcript.length}</span>
+          <button onClick={() => stepReplay(step + 1)} disabled={step === transcript.length} className="medieval-button px-3 py-2 text-[10px]" aria-label="Next turn">▶</button>
+          <button onClick={() => stepReplay(transcript.length)} disabled={step === transcript.length} className="medieval-button px-3 py-2 text-[10px]" aria-label="Last turn">⏭</button>
+          <button onClick={() => setReplay(null)} className="medieval-button px-4 py-2 text-[10px] uppercase ml-4">Close</button>
+        </div>
+      </div>
+    );
   };
 
   const getDifficultyColor = (diff: Difficulty) => {
@@ -653,6 +492,12 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen relative flex flex-col overflow-hidden text-2xl pixel-reading">
+      {storageProblem && (
+        <div className="fixed top-0 inset-x-0 z-50 p-2 bg-amber-900/90 border-b border-amber-500 text-amber-100 text-center text-sm md:text-base" role="alert">
+          {storageProblem}
+          <button onClick={() => setStorageProblem(null)} className="ml-3 px-2 bg-amber-800 hover:bg-amber-700 text-xs rounded" aria-label="Dismiss storage warning">✕</button>
+        </div>
+      )}
       {gameState === GameState.MENU && (
         <div key="menu" className="flex flex-col items-center justify-center flex-1 p-4 relative z-10 animate-page-entry overflow-y-auto">
           <h1 className="text-4xl md:text-6xl text-center mb-16 text-[#c5a059] tracking-tighter uppercase font-black font-pixel-title" style={{ textShadow: '8px 8px 0px #7b0000, 0 0 15px rgba(0,0,0,0.6)' }}>
@@ -660,11 +505,143 @@ const App: React.FC = () => {
           </h1>
           <div className="menu-panel p-10 max-w-lg w-full text-center">
             <div className="space-y-6">
+              {error && (
+                <div className="p-2 bg-red-900/80 border border-red-600 text-red-200 text-sm rounded" role="alert">
+                  {error}
+                  <div className="mt-2 flex justify-center gap-2">
+                    {lastAction && canRetry && (
+                      <button onClick={retryLastAction} disabled={isLoading} className="px-3 py-1 bg-red-800 hover:bg-red-700 text-red-200 text-xs rounded disabled:opacity-50" aria-label="Retry last action">
+                        Retry
+                      </button>
+                    )}
+                    <button onClick={dismissError} className="px-3 py-1 bg-red-800 hover:bg-red-700 text-red-200 text-xs rounded" aria-label="Dismiss error">✕</button>
+                  </div>
+                </div>
+              )}
+              {slots.length > 0 && (
+                <div className="text-left">
+                  <div className="text-[10px] text-[#c5a059] uppercase font-bold tracking-widest font-pixel-title mb-2">
+                    Continue ({slots.length}/{MAX_SAVE_SLOTS})
+                  </div>
+                  <div className="space-y-2">
+                    {slots.map(slot => (
+                      <div key={slot.slotId} className="stone-border p-2 text-base">
+                        {renamingSlot?.slotId === slot.slotId ? (
+                          <form
+                            className="flex gap-2"
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              saveSlotName();
+                            }}
+                          >
+                            <input
+                              value={renamingSlot.name}
+                              onChange={(e) => setRenamingSlot({ slotId: slot.slotId, name: sanitizeInput(e.target.value) })}
+                              maxLength={MAX_SLOT_NAME_LENGTH}
+                              autoFocus
+                              className="flex-1 min-w-0 bg-[#111] text-gray-100 px-2 border-2 border-gray-700 outline-none"
+                              aria-label="Save slot name"
+                            />
+                            <button type="submit" className="medieval-button px-3 py-1 text-[10px]">Save</button>
+                            <button type="button" onClick={() => setRenamingSlot(null)} className="medieval-button px-3 py-1 text-[10px]">✕</button>
+                          </form>
+                        ) : (
+                          <button
+                            onClick={() => resumeSlot(slot.slotId)}
+                            disabled={isLoading}
+                            className="w-full text-left"
+                            aria-label={`Continue ${slot.name}`}
+                          >
+                            <div className="flex justify-between gap-2">
+                              <span className="text-gray-100 font-bold truncate">{slot.name}</span>
+                              <span className={`text-[10px] px-2 border uppercase font-bold shrink-0 ${getDifficultyColor(slot.currentCase.difficulty)}`}>{slot.currentCase.difficulty}</span>
+                            </div>
+                            <div className="text-sm text-gray-400">
+                              {describeSlotProgress(slot)} · {new Date(slot.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                            </div>
+                          </button>
+                        )}
+                        {renamingSlot?.slotId !== slot.slotId && (
+                          <div className="mt-1 flex gap-2 justify-end">
+                            <button onClick={() => setRenamingSlot({ slotId: slot.slotId, name: slot.name })} className="text-[10px] text-gray-400 hover:text-gray-200 uppercase" aria-label={`Rename ${slot.name}`}>Rename</button>
+                            <button onClick={() => abandonSlot(slot.slotId)} className="text-[10px] text-red-400 hover:text-red-300 uppercase" aria-label={`Abandon ${slot.name}`}>
+                              {abandoningSlot === slot.slotId ? 'Abandon for good?' : 'Abandon'}
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="flex gap-2 items-center text-base">
+                <span className="text-[10px] text-[#c5a059] uppercase font-bold tracking-widest font-pixel-title shrink-0">Detective</span>
+                {newProfileName === null ? (
+                  <>
+                    <select
+                      value={activeProfileId ?? ''}
+                      onChange={(e) => engine.dispatch({ type: 'SELECT_PROFILE', profileId: e.target.value || null })}
+                      className="flex-1 min-w-0 bg-[#111] text-gray-100 px-2 py-1 border-2 border-gray-700 outline-none"
+                      aria-label="Play as detective"
+                      disabled={isLoading}
+                    >
+                      <option value="">{UNNAMED_DETECTIVE}</option>
+                      {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                    </select>
+                    <button onClick={() => setNewProfileName('')} className="medieval-button px-3 py-1 text-[10px]" aria-label="Create a detective profile" disabled={isLoading}>New</button>
+                  </>
+                ) : (
+                  <form
+                    className="flex flex-1 gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      createProfile();
+                    }}
+                  >
+                    <input
+                      value={newProfileName}
+                      onChange={(e) => setNewProfileName(sanitizeInput(e.target.value))}
+                      maxLength={MAX_PROFILE_NAME_LENGTH}
+                      placeholder="Name"
+                      autoFocus
+                      className="flex-1 min-w-0 bg-[#111] text-gray-100 px-2 border-2 border-gray-700 outline-none"
+                      aria-label="New detective name"
+                    />
+                    <button type="submit" className="medieval-button px-3 py-1 text-[10px]" disabled={!newProfileName.trim()}>Add</button>
+                    <button type="button" onClick={() => setNewProfileName(null)} className="medieval-button px-3 py-1 text-[10px]" aria-label="Cancel new detective">✕</button>
+                  </form>
+                )}
+              </div>
+              <div className="text-sm text-gray-400 pixel-reading font-bold -mt-4" aria-label={`Title: ${detectiveTitle}`}>
+                Known in the realm as <span className="text-[#c5a059]">{detectiveTitle}</span>
+              </div>
+              {todaysDailyEntry ? (
+                <div>
+                  <div className="text-[10px] text-[#c5a059] uppercase font-bold tracking-widest font-pixel-title mb-2">
+                    Daily Case · {todaysDailyEntry.status === 'Solved' ? 'Solved' : 'Surrendered'} · the next opens tomorrow
+                  </div>
+                  {renderDailyShare(todaysDailyEntry)}
+                </div>
+              ) : todaysDailyAbandoned ? (
+                <div className="text-sm text-gray-400 pixel-reading font-bold" role="status">
+                  Today's Daily Case was left unsolved. The next opens tomorrow.
+                </div>
+              ) : (
+                <button
+                  onClick={startDaily}
+                  className="w-full medieval-button bg-[#7b0000] text-white py-5 text-lg font-bold uppercase tracking-widest"
+                  aria-label={todaysDailySlot ? "Continue today's daily case" : "Start today's daily case, the same case for every player"}
+                  disabled={isLoading || budgetExhausted || packCaseCount() === 0}
+                  title={packCaseCount() === 0 ? 'The daily case comes from the installed puzzle packs, and none are installed' : undefined}
+                >
+                  {todaysDailySlot ? 'Continue Daily Case' : 'Daily Case'}
+                </button>
+              )}
               <button
                 onClick={() => startGame('Easy')}
                 className="w-full medieval-button py-5 text-lg font-bold uppercase tracking-widest"
                 aria-label="Start easy difficulty game as Peasant"
-                disabled={isLoading}
+                disabled={isLoading || budgetExhausted || (packOnly && packCaseCount('Easy') === 0)}
               >
                 Peasant (Easy)
               </button>
@@ -672,7 +649,7 @@ const App: React.FC = () => {
                 onClick={() => startGame('Medium')}
                 className="w-full medieval-button py-5 text-lg font-bold uppercase tracking-widest"
                 aria-label="Start medium difficulty game as Knight"
-                disabled={isLoading}
+                disabled={isLoading || budgetExhausted || (packOnly && packCaseCount('Medium') === 0)}
               >
                 Knight (Medium)
               </button>
@@ -680,10 +657,28 @@ const App: React.FC = () => {
                 onClick={() => startGame('Hard')}
                 className="w-full medieval-button py-5 text-lg font-bold uppercase tracking-widest"
                 aria-label="Start hard difficulty game as Lord"
-                disabled={isLoading}
+                disabled={isLoading || budgetExhausted || (packOnly && packCaseCount('Hard') === 0)}
               >
                 Lord (Hard)
               </button>
+              {budget && budget.limitTokens !== null && budget.state !== 'ok' && (
+                <div className={`text-sm pixel-reading font-bold ${budgetExhausted ? 'text-red-400' : 'text-yellow-300'}`} role="status">
+                  {budgetExhausted
+                    ? `Today's oracle budget (${formatTokens(budget.limitTokens)} tokens) is spent. New cases open tomorrow.`
+                    : `${formatTokens(budget.usedTokens)} of today's ${formatTokens(budget.limitTokens)} oracle tokens are spent.`}
+                </div>
+              )}
+              {packCaseCount() > 0 && (
+                <button
+                  onClick={togglePackOnly}
+                  className="w-full medieval-button py-2 text-[10px] tracking-widest"
+                  aria-label="Toggle between oracle cases and installed puzzle packs"
+                  aria-pressed={packOnly}
+                  disabled={isLoading}
+                >
+                  Cases: {packOnly ? `Puzzle Packs (${packCaseCount()})` : 'Oracle'}
+                </button>
+              )}
               
               <div className="pt-4 mt-2 border-t border-[#4a4138] flex gap-4">
                 <button
@@ -702,52 +697,376 @@ const App: React.FC = () => {
                 >
                   Archives
                 </button>
+                <button
+                  onClick={() => navigateTo(GameState.STATS)}
+                  className="flex-1 medieval-button py-1.5 text-[10px] tracking-widest"
+                  aria-label="View detective statistics"
+                  disabled={isLoading}
+                >
+                  Stats
+                </button>
+                <button
+                  onClick={openSettings}
+                  className="flex-1 medieval-button py-1.5 text-[10px] tracking-widest"
+                  aria-label="Configure oracle model routing"
+                  disabled={isLoading}
+                >
+                  Settings
+                </button>
               </div>
             </div>
           </div>
         </div>
       )}
 
+      {gameState === GameState.SETTINGS && (
+        <div key="settings" className="flex flex-col items-center justify-center flex-1 p-4 md:p-6 z-10 relative animate-page-entry">
+          <div className="parchment p-6 md:p-10 max-w-4xl w-full border-8 border-[#3d3d3d] shadow-2xl flex flex-col h-[85vh]">
+            <h2 className="text-xl md:text-2xl mb-4 border-b-4 border-[#bdae82] pb-4 font-bold uppercase text-center text-[#7b0000] font-pixel-title">Oracle Settings</h2>
+            <div className="mb-4 flex flex-wrap items-center gap-2 text-sm md:text-base pixel-reading font-bold text-[#433422]" role="radiogroup" aria-label="Unfinished cases expire after">
+              <span className="text-[#7b0000]">Unfinished cases expire after</span>
+              {SLOT_EXPIRY_CHOICES.map(choice => {
+                const outlivesCase = caseTtlHours !== null && (choice.hours === null || choice.hours > caseTtlHours);
+                return (
+                  <button
+                    key={choice.label}
+                    onClick={() => setSlotExpiry(choice.hours)}
+                    disabled={outlivesCase}
+                    title={outlivesCase ? `The game master forgets an untouched case after ${caseTtlHours} hours` : undefined}
+                    role="radio"
+                    aria-checked={settings.slotExpiryHours === choice.hours}
+                    className={`medieval-button px-3 py-1 text-[10px] ${settings.slotExpiryHours === choice.hours ? 'ring-2 ring-[#7b0000]' : 'opacity-70'} ${outlivesCase ? 'opacity-30 cursor-not-allowed' : ''}`}
+                  >
+                    {choice.label}
+                  </button>
+                );
+              })}
+              {caseTtlHours !== null && (
+                <span className="w-full text-xs md:text-sm font-normal">The game master keeps an untouched case for {caseTtlHours} hours; longer settings are not offered.</span>
+              )}
+            </div>
+            {routing && (
+              <div className="mb-4 grid grid-cols-4 gap-1 text-sm md:text-base pixel-reading font-bold text-[#433422]">
+                <div></div>
+                <div className="text-center">Easy</div>
+                <div className="text-center">Medium</div>
+                <div className="text-center">Hard</div>
+                {MODEL_OPERATIONS.map(operation => (
+                  <React.Fragment key={operation}>
+                    <div className="text-[#7b0000]">{MODEL_OPERATION_LABELS[operation]}</div>
+                    {(['Easy', 'Medium', 'Hard'] as Difficulty[]).map(difficulty => (
+                      <div key={difficulty} className="text-center truncate" title={routing.routes[operation][difficulty].map(route => route.model).join(' → ')}>
+                        {routing.routes[operation][difficulty][0]?.model}
+                      </div>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </div>
+            )}
+            <textarea
+              value={routingDraft}
+              onChange={(e) => {
+                setRoutingDraft(e.target.value);
+                setRoutingSaved(false);
+              }}
+              spellCheck={false}
+              className="flex-1 w-full bg-[#f4ecd8] text-[#433422] p-3 text-xs md:text-sm font-mono border-4 border-[#bdae82] outline-none resize-none"
+              aria-label="Model routing JSON"
+            />
+            {routingErrors.length > 0 && (
+              <ul className="mt-3 max-h-32 overflow-y-auto text-sm text-red-800 pixel-reading font-bold list-disc pl-5" role="alert">
+                {routingErrors.map((routingError, errorIdx) => <li key={errorIdx}>{routingError}</li>)}
+              </ul>
+            )}
+            {routingSaved && (
+              <div className="mt-3 text-sm text-green-800 pixel-reading font-bold" role="status">Routing saved. New requests use it at once.</div>
+            )}
+            <div className="mt-4 flex gap-4 justify-center">
+              <button onClick={saveRouting} className="medieval-button px-8 py-2 text-[10px] font-bold uppercase" disabled={!routingDraft.trim()}>Save</button>
+              <button onClick={() => navigateTo(GameState.MENU)} className="medieval-button px-8 py-2 text-[10px] font-bold uppercase">Return</button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {gameState === GameState.HISTORY && (
         <div key="history" className="flex flex-col items-center justify-center flex-1 p-4 md:p-6 z-10 relative animate-page-entry">
           <div className="parchment p-8 md:p-10 max-w-4xl w-full border-8 border-[#3d3d3d] shadow-2xl flex flex-col h-[85vh]">
             <h2 className="text-xl md:text-2xl mb-6 border-b-4 border-[#bdae82] pb-4 font-bold uppercase text-center text-[#7b0000] font-pixel-title">Chronicle of Past Deeds</h2>
-            <div className="flex-1 overflow-y-auto space-y-4 pr-2">
-              {historyLog.length === 0 ? (
-                <div className="text-center py-24 text-[#433422]/20 uppercase font-bold text-3xl pixel-reading leading-relaxed italic">
-                  The archives are empty...<br/>only dust remains.
+            {!replay && (historyLog.some(entry => entry.usage) || serverUsage?.today) && (
+              <div className="mb-4 grid grid-cols-1 md:grid-cols-3 gap-3 text-sm pixel-reading font-bold text-[#433422]">
+                <div>
+                  <div className="text-[#7b0000] uppercase">By Difficulty</div>
+                  {(['Easy', 'Medium', 'Hard'] as Difficulty[]).map(difficulty => (
+                    <div key={difficulty} className="flex justify-between gap-2">
+                      <span>{difficulty}</span>
+                      <span>{formatUsage(archiveUsageByDifficulty[difficulty])}</span>
+                    </div>
+                  ))}
                 </div>
-              ) : (
-                historyLog.map((entry) => (
-                  <div key={entry.id} className="border-2 border-[#bdae82] p-4 bg-white/70 hover:bg-white/90">
-                    <div className="flex justify-between items-start mb-2">
-                      <div className="flex flex-col gap-1">
-                        <div className="flex gap-2 items-center">
-                          <span className={`px-2 py-1 text-[8px] font-bold uppercase w-fit font-pixel-title ${entry.status === 'Solved' ? 'bg-green-200 text-green-800' : 'bg-red-200 text-red-800'}`}>
-                            {entry.status}
-                          </span>
-                          <span className={`px-2 py-0.5 text-[8px] font-bold uppercase border ${getDifficultyColor(entry.puzzle.difficulty)} font-pixel-title`}>
-                            {entry.puzzle.difficulty}
+                <div>
+                  <div className="text-[#7b0000] uppercase">Last 7 Days Played</div>
+                  {archiveUsageByDay.map(({ day, usage }) => (
+                    <div key={day} className="flex justify-between gap-2">
+                      <span>{day}</span>
+                      <span>{formatUsage(usage)}</span>
+                    </div>
+                  ))}
+                </div>
+                {serverUsage?.today && (
+                  <div>
+                    <div className="text-[#7b0000] uppercase">Oracle Today (All Players)</div>
+                    {MODEL_OPERATIONS.filter(operation => serverUsage.today?.byOperation[operation]).map(operation => (
+                      <div key={operation} className="flex justify-between gap-2">
+                        <span>{MODEL_OPERATION_LABELS[operation]}</span>
+                        <span>{formatUsage(serverUsage.today!.byOperation[operation]!)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between gap-2 border-t border-[#bdae82]">
+                      <span>Total{budget?.limitTokens ? ` of ${formatTokens(budget.limitTokens)}` : ''}</span>
+                      <span>{formatUsage(serverUsage.today.total)}</span>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+            {!replay && (
+              <div className="mb-4 flex flex-wrap gap-2 items-center justify-center">
+                <span className="text-sm font-bold text-[#7b0000] uppercase pixel-reading">Export</span>
+                <button onClick={() => exportHistory('json')} disabled={historyLog.length === 0} className="medieval-button px-3 py-1 text-[10px]" aria-label="Export the archive as JSON for backup">JSON</button>
+                <button onClick={() => exportHistory('markdown')} disabled={historyLog.length === 0} className="medieval-button px-3 py-1 text-[10px]" aria-label="Export the archive as Markdown">Markdown</button>
+                <button onClick={() => exportHistory('csv')} disabled={historyLog.length === 0} className="medieval-button px-3 py-1 text-[10px]" aria-label="Export the archive as CSV">CSV</button>
+                <button onClick={() => importInputRef.current?.click()} className="medieval-button px-3 py-1 text-[10px] ml-4" aria-label="Import archive files exported as JSON">Import</button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => importHistoryFiles(e.target.files)}
+                />
+              </div>
+            )}
+            {!replay && importReport && (
+              <div className="mb-4 p-3 border-2 border-[#bdae82] bg-white/70 text-sm pixel-reading font-bold text-[#433422]" role="status">
+                <div className="flex justify-between gap-2">
+                  <span>
+                    Imported {importReport.added} {importReport.added === 1 ? 'case' : 'cases'}
+                    {importReport.duplicates > 0 ? `, skipped ${importReport.duplicates} already archived` : ''}
+                    {importReport.errors.length > 0 ? `, rejected ${importReport.errors.length}` : ''}.
+                  </span>
+                  <button onClick={() => setImportReport(null)} className="text-xs" aria-label="Dismiss import report">✕</button>
+                </div>
+                {importReport.errors.length > 0 && (
+                  <ul className="mt-2 max-h-24 overflow-y-auto text-red-800 list-disc pl-5">
+                    {importReport.errors.map((importError, errorIdx) => <li key={errorIdx}>{importError}</li>)}
+                  </ul>
+                )}
+              </div>
+            )}
+            {replay ? renderReplay(replay) : (
+              <div className="flex-1 overflow-y-auto space-y-4 pr-2">
+                {historyLog.length === 0 ? (
+                  <div className="text-center py-24 text-[#433422]/20 uppercase font-bold text-3xl pixel-reading leading-relaxed italic">
+                    The archives are empty...<br/>only dust remains.
+                  </div>
+                ) : (
+                  historyLog.map((entry) => (
+                    <div key={entry.id} className="border-2 border-[#bdae82] p-4 bg-white/70 hover:bg-white/90">
+                      <div className="flex justify-between items-start mb-2">
+                        <div className="flex flex-col gap-1">
+                          <div className="flex gap-2 items-center">
+                            <span className={`px-2 py-1 text-[8px] font-bold uppercase w-fit font-pixel-title ${entry.status === 'Solved' ? 'bg-green-200 text-green-800' : 'bg-red-200 text-red-800'}`}>
+                              {entry.status}
+                            </span>
+                            <span className={`px-2 py-0.5 text-[8px] font-bold uppercase border ${getDifficultyColor(entry.puzzle.difficulty)} font-pixel-title`}>
+                              {entry.puzzle.difficulty}
+                            </span>
+                            {entry.daily && (
+                              <span className="px-2 py-0.5 text-[8px] font-bold uppercase border border-[#7b0000] text-[#7b0000] font-pixel-title">
+                                Daily {entry.daily}
+                              </span>
+                            )}
+                          </div>
+                          <span className="text-[12px] text-gray-500 font-bold uppercase mt-1">
+                            {entry.score ? `${formatScore(entry.score.total)} pts | ` : ''}{entry.interactionsCount} Inquiries | {entry.hintsUsed} Hints{entry.nearMisses ? ` | ${entry.nearMisses} Near Misses` : ''}{entry.usage ? ` | ${formatUsage(entry.usage)}` : ''}{entry.playerName ? ` | ${entry.playerName}` : ''}
                           </span>
                         </div>
-                        <span className="text-[12px] text-gray-500 font-bold uppercase mt-1">
-                          {entry.interactionsCount} Inquiries | {entry.hintsUsed} Hints
-                        </span>
+                        <span className="text-[12px] text-gray-600 font-bold">{new Date(entry.timestamp).toLocaleDateString()}</span>
                       </div>
-                      <span className="text-[12px] text-gray-600 font-bold">{new Date(entry.timestamp).toLocaleDateString()}</span>
+                      <h4 className="text-2xl font-bold text-[#433422] mb-1">{entry.puzzle.title}</h4>
+                      <p className="text-lg italic text-gray-700 mb-2 line-clamp-1">"{entry.puzzle.surface}"</p>
+                      <details className="mt-2 text-[14px] cursor-pointer" onToggle={() => playSfx('click')}>
+                        <summary className="text-[#7b0000] font-bold uppercase hover:underline" role="button" tabIndex={0}>View Truth</summary>
+                        <p className="mt-2 p-3 bg-[#fdf8e8] border-l-4 border-[#7b0000] text-lg pixel-reading text-[#433422] leading-relaxed">
+                          {entry.puzzle.bottom}
+                        </p>
+                      </details>
+                      {entry.transcript && entry.transcript.length > 0 && (
+                        <button
+                          onClick={() => openReplay(entry)}
+                          className="mt-2 text-[14px] text-[#7b0000] font-bold uppercase hover:underline"
+                          aria-label={`Replay the inquiry log of ${entry.puzzle.title}`}
+                        >
+                          Replay ({entry.transcript.length} turns)
+                        </button>
+                      )}
                     </div>
-                    <h4 className="text-2xl font-bold text-[#433422] mb-1">{entry.puzzle.title}</h4>
-                    <p className="text-lg italic text-gray-700 mb-2 line-clamp-1">"{entry.puzzle.surface}"</p>
-                    <details className="mt-2 text-[14px] cursor-pointer" onToggle={() => playSfx('click')}>
-                      <summary className="text-[#7b0000] font-bold uppercase hover:underline" role="button" tabIndex={0}>View Truth</summary>
-                      <p className="mt-2 p-3 bg-[#fdf8e8] border-l-4 border-[#7b0000] text-lg pixel-reading text-[#433422] leading-relaxed">
-                        {entry.puzzle.bottom}
-                      </p>
-                    </details>
-                  </div>
-                ))
-              )}
+                  ))
+                )}
+              </div>
+            )}
+            <div className="mt-8">
+              <button onClick={() => navigateTo(GameState.MENU)} className="medieval-button w-full py-4 text-sm font-bold uppercase">Return</button>
             </div>
+          </div>
+        </div>
+      )}
+
+      {gameState === GameState.STATS && detectiveStats && (
+        <div key="stats" className="flex flex-col items-center justify-center flex-1 p-4 md:p-6 z-10 relative animate-page-entry">
+          <div className="parchment p-8 md:p-10 max-w-4xl w-full border-8 border-[#3d3d3d] shadow-2xl flex flex-col h-[85vh]">
+            <h2 className="text-xl md:text-2xl mb-6 border-b-4 border-[#bdae82] pb-4 font-bold uppercase text-center text-[#7b0000] font-pixel-title">Ledger of the Detective</h2>
+            {leaderboard.length > 0 && (
+              <div className="mb-6 text-[#433422] pixel-reading font-bold">
+                <div className="text-[10px] text-[#7b0000] uppercase tracking-widest font-pixel-title mb-2">Leaderboard</div>
+                <div className="grid grid-cols-[auto_1fr_auto_auto_auto] gap-x-4 text-base md:text-lg max-h-40 overflow-y-auto">
+                  <span className="text-sm uppercase">#</span>
+                  <span className="text-sm uppercase">Detective</span>
+                  <span className="text-sm uppercase text-right">Solved</span>
+                  <span className="text-sm uppercase text-right">Best</span>
+                  <span className="text-sm uppercase text-right">Total</span>
+                  {leaderboard.map((row, rowIdx) => (
+                    <React.Fragment key={row.playerId ?? 'none'}>
+                      <span>{rowIdx + 1}</span>
+                      <span className={`truncate ${row.playerId !== null && row.playerId === activeProfileId ? 'text-[#7b0000]' : ''}`}>{row.name}</span>
+                      <span className="text-right">{row.solved}/{row.cases}</span>
+                      <span className="text-right">{formatScore(row.bestScore)}</span>
+                      <span className="text-right">{formatScore(row.totalScore)}</span>
+                    </React.Fragment>
+                  ))}
+                </div>
+              </div>
+            )}
+            {(profiles.length > 0 || historyLog.some(entry => entry.playerId)) && (
+              <label className="mb-4 flex gap-2 items-center text-sm pixel-reading font-bold text-[#433422]">
+                <span className="text-[#7b0000] uppercase">Figures for</span>
+                <select
+                  value={statsPlayer}
+                  onChange={(e) => setStatsPlayer(e.target.value)}
+                  className="bg-[#f4ecd8] border-2 border-[#bdae82] px-2 py-1 outline-none"
+                >
+                  <option value="all">All detectives</option>
+                  {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                  <option value="none">{UNNAMED_DETECTIVE}</option>
+                </select>
+              </label>
+            )}
+            {detectiveStats.played === 0 ? (
+              <div className="flex-1 text-center py-24 text-[#433422]/20 uppercase font-bold text-3xl pixel-reading leading-relaxed italic">
+                No cases closed yet...<br/>the ledger is blank.
+              </div>
+            ) : (
+              <div className="flex-1 overflow-y-auto space-y-6 pr-2 text-[#433422] pixel-reading font-bold">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                  {[
+                    { label: 'Cases Closed', value: String(detectiveStats.played) },
+                    { label: 'Solve Rate', value: formatRate(detectiveStats.overall.solveRate) },
+                    { label: 'Current Streak', value: String(detectiveStats.currentStreak) },
+                    { label: 'Best Streak', value: String(detectiveStats.bestStreak) }
+                  ].map(({ label, value }) => (
+                    <div key={label} className="border-2 border-[#bdae82] bg-white/70 p-3">
+                      <div className="text-3xl md:text-4xl text-[#7b0000]">{value}</div>
+                      <div className="text-[8px] uppercase tracking-widest font-pixel-title mt-1">{label}</div>
+                    </div>
+                  ))}
+                </div>
+
+                <div>
+                  <div className="text-[10px] text-[#7b0000] uppercase tracking-widest font-pixel-title mb-2">By Rank</div>
+                  <div className="grid grid-cols-[auto_1fr_auto_auto] gap-x-4 gap-y-2 items-center text-base md:text-lg">
+                    <div></div>
+                    <div className="text-sm uppercase">Solved / Surrendered</div>
+                    <div className="text-sm uppercase text-right" title="Average inquiries per solved case">Inq.</div>
+                    <div className="text-sm uppercase text-right" title="Average hints per solved case">Hints</div>
+                    {(['Easy', 'Medium', 'Hard'] as Difficulty[]).map(difficulty => {
+                      const record = detectiveStats.byDifficulty[difficulty];
+                      return (
+                        <React.Fragment key={difficulty}>
+                          <span className={`px-2 py-0.5 text-[8px] uppercase border ${getDifficultyColor(difficulty)} font-pixel-title`}>{difficulty}</span>
+                          <div className="flex items-center gap-2" aria-label={`${difficulty}: ${record.solved} solved, ${record.surrendered} surrendered`}>
+                            <div className="flex-1 h-4 bg-[#111] border-2 border-gray-700 flex overflow-hidden">
+                              <div className="h-full bg-green-700" style={{ width: `${record.played > 0 ? (record.solved / record.played) * 100 : 0}%` }}></div>
+                              <div className="h-full bg-[#7b0000]" style={{ width: `${record.played > 0 ? (record.surrendered / record.played) * 100 : 0}%` }}></div>
+                            </div>
+                            <span className="w-28 text-sm text-right">{record.solved}/{record.surrendered} ({formatRate(record.solveRate)})</span>
+                          </div>
+                          <span className="text-right">{formatAverage(record.avgInquiries)}</span>
+                          <span className="text-right">{formatAverage(record.avgHints)}</span>
+                        </React.Fragment>
+                      );
+                    })}
+                    <span className="text-[8px] uppercase font-pixel-title">All</span>
+                    <span className="text-sm">{detectiveStats.overall.solved} solved of {detectiveStats.overall.played}</span>
+                    <span className="text-right border-t border-[#bdae82]">{formatAverage(detectiveStats.overall.avgInquiries)}</span>
+                    <span className="text-right border-t border-[#bdae82]">{formatAverage(detectiveStats.overall.avgHints)}</span>
+                  </div>
+                </div>
+
+                <div>
+                  <div className="text-[10px] text-[#7b0000] uppercase tracking-widest font-pixel-title mb-2">Last {detectiveStats.weeks.length} Weeks</div>
+                  <div className="flex items-end gap-2 h-40 border-b-4 border-[#bdae82]">
+                    {detectiveStats.weeks.map(week => (
+                      <div
+                        key={week.weekStart}
+                        className="flex-1 flex flex-col items-center justify-end h-full"
+                        title={`Week of ${week.weekStart}: ${week.solved} of ${week.played} solved, ${formatAverage(week.avgInquiries)} inquiries per solve`}
+                      >
+                        <span className="text-xs">{week.played > 0 ? formatRate(week.solveRate) : ''}</span>
+                        <div className="w-full bg-[#7b0000] border-2 border-[#433422]" style={{ height: `${(week.solveRate ?? 0) * 100}%`, minHeight: week.played > 0 ? '4px' : '0' }}></div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex gap-2 mt-1 text-[10px] md:text-xs text-center">
+                    {detectiveStats.weeks.map(week => (
+                      <div key={week.weekStart} className="flex-1">
+                        <div>{week.weekStart.slice(5)}</div>
+                        <div className="text-gray-600">{week.played > 0 ? `${week.played} · ${formatAverage(week.avgInquiries)} inq.` : '—'}</div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="mt-2 text-xs text-gray-600">Bars show the share of cases solved each week; below, cases closed and inquiries per solved case.</div>
+                </div>
+
+                <div>
+                  <div className="text-[10px] text-[#7b0000] uppercase tracking-widest font-pixel-title mb-2">Badges ({earnedBadges.length}/{ACHIEVEMENTS.length})</div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {ACHIEVEMENTS.map(achievement => {
+                      const earned = earnedBadges.find(badge => badge.achievement.id === achievement.id);
+                      return (
+                        <div
+                          key={achievement.id}
+                          className={`flex gap-3 items-center border-2 p-2 ${earned ? 'border-[#c5a059] bg-white/80' : 'border-[#bdae82] bg-white/30 opacity-50'}`}
+                          aria-label={`${achievement.name}: ${earned ? 'earned' : 'not earned yet'}`}
+                        >
+                          <span className={`text-3xl ${earned ? '' : 'grayscale'}`} aria-hidden="true">{achievement.badge}</span>
+                          <div className="text-sm">
+                            <div className="text-[#7b0000]">{achievement.name}</div>
+                            <div>{achievement.description}</div>
+                            <div className="text-xs text-gray-600">
+                              {[
+                                ...(achievement.title ? [`Title: ${achievement.title}`] : []),
+                                ...(earned ? [`Earned ${new Date(earned.unlockedAt).toLocaleDateString()}`] : [])
+                              ].join(' · ')}
+                            </div>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              </div>
+            )}
             <div className="mt-8">
               <button onClick={() => navigateTo(GameState.MENU)} className="medieval-button w-full py-4 text-sm font-bold uppercase">Return</button>
             </div>
@@ -784,6 +1103,13 @@ const App: React.FC = () => {
                 style={{ width: `${loadingProgress}%` }}
               ></div>
             </div>
+            <button
+              onClick={() => navigateTo(GameState.MENU)}
+              className="medieval-button mt-10 px-8 py-2 text-[10px] font-bold uppercase"
+              aria-label="Cancel and return to main menu"
+            >
+              Cancel
+            </button>
           </div>
         </div>
       )}
@@ -794,8 +1120,11 @@ const App: React.FC = () => {
           {error && (
             <div className="mb-2 md:mb-4 p-2 md:p-3 bg-red-900/80 border border-red-600 text-red-200 text-center text-sm md:text-base rounded">
               {error}
+              {!canRetry && (
+                <div className="mt-1 text-xs text-red-300">Retrying the same request will not help.</div>
+              )}
               <div className="mt-2 flex justify-center gap-2">
-                {lastAction && (
+                {lastAction && canRetry && (
                   <button
                     onClick={retryLastAction}
                     disabled={isLoading}
@@ -806,7 +1135,7 @@ const App: React.FC = () => {
                   </button>
                 )}
                 <button
-                  onClick={() => setError(null)}
+                  onClick={dismissError}
                   className="px-3 py-1 bg-red-800 hover:bg-red-700 text-red-200 text-xs rounded"
                   aria-label="Dismiss error"
                 >
@@ -821,8 +1150,16 @@ const App: React.FC = () => {
             <div className="flex items-center gap-2 md:gap-4 overflow-hidden">
               <div className="w-8 h-8 md:w-12 md:h-12 flex items-center justify-center text-xl md:text-3xl stone-border font-bold text-[#c5a059] font-pixel-title shrink-0">?</div>
               <div className="flex flex-col">
-                <div className="text-[8px] md:text-[10px] text-[#c5a059] uppercase font-bold tracking-widest truncate font-pixel-title">Case: {currentPuzzle?.title}</div>
-                <div className="text-[6px] md:text-[8px] text-gray-400 uppercase font-bold tracking-tighter font-pixel-title mt-0.5">Complexity: {currentPuzzle?.difficulty}</div>
+                <div className="text-[8px] md:text-[10px] text-[#c5a059] uppercase font-bold tracking-widest truncate font-pixel-title">Case: {currentCase?.title}</div>
+                <div className="text-[6px] md:text-[8px] text-gray-400 uppercase font-bold tracking-tighter font-pixel-title mt-0.5">Complexity: {currentCase?.difficulty}</div>
+                {keyFactCount > 0 && (
+                  <div className="flex items-center gap-2 mt-1" aria-label={`Truth uncovered: ${uncoveredFacts.size} of ${keyFactCount} facts`}>
+                    <div className="w-16 md:w-32 h-2 md:h-3 bg-[#111] border-2 border-gray-700 relative overflow-hidden">
+                      <div className="h-full bg-[#c5a059] transition-all duration-300 ease-out" style={{ width: `${(uncoveredFacts.size / keyFactCount) * 100}%` }}></div>
+                    </div>
+                    <span className="text-[6px] md:text-[8px] text-[#c5a059] uppercase font-bold font-pixel-title">Truth {uncoveredFacts.size}/{keyFactCount}</span>
+                  </div>
+                )}
               </div>
             </div>
             <div className="flex gap-1 md:gap-4">
@@ -838,7 +1175,7 @@ const App: React.FC = () => {
               )}
               <button
                 onClick={handleSurrender}
-                disabled={isLoading || !currentPuzzle}
+                disabled={!currentCase}
                 className="medieval-button danger-button px-2 md:px-4 py-1 md:py-2 text-[6px] md:text-[8px]"
                 aria-label="Surrender current case"
               >
@@ -848,7 +1185,6 @@ const App: React.FC = () => {
                 onClick={() => navigateTo(GameState.MENU)}
                 className="medieval-button px-2 md:px-4 py-1 md:py-2 text-[6px] md:text-[8px] bg-[#111]"
                 aria-label="Exit to main menu"
-                disabled={isLoading}
               >
                 Exit
               </button>
@@ -860,7 +1196,7 @@ const App: React.FC = () => {
             <div className="block lg:hidden shrink-0">
               <div className="parchment p-3 stone-border max-h-[15vh] overflow-y-auto">
                 <div className="text-[10px] text-[#8b4513] mb-1 border-b border-[#bdae82] pb-0.5 font-black tracking-widest uppercase font-pixel-title">The Surface</div>
-                <p className="text-lg leading-snug text-[#433422] pixel-reading font-bold italic">{currentPuzzle?.surface}</p>
+                <p className="text-lg leading-snug text-[#433422] pixel-reading font-bold italic">{currentCase?.surface}</p>
               </div>
             </div>
 
@@ -871,25 +1207,7 @@ const App: React.FC = () => {
                </div>
                <div className="flex-1 overflow-y-auto p-3 md:p-5 space-y-4 md:space-y-6">
                 {history.length === 0 && <div className="text-gray-500 text-center py-12 uppercase text-xl md:text-3xl pixel-reading tracking-widest animate-pulse italic">Speak into the abyss...</div>}
-                {history.map((item, idx) => (
-                  <div key={idx} className={`p-4 md:p-6 border-l-[8px] md:border-l-[12px] ${item.type === 'guess' ? 'border-[#7b0000] bg-red-950/40' : item.type === 'hint' ? 'border-[#c5a059] bg-yellow-950/20' : 'border-[#444] bg-gray-900/60'} animate-page-entry`}>
-                    <div className="mb-1 md:mb-2">
-                      <span className="text-lg md:text-2xl text-gray-100 pixel-reading leading-relaxed font-bold">{item.content}</span>
-                    </div>
-                    {item.status && (
-                      <div className="pl-3 md:pl-4 border-l-2 md:border-l-4 border-gray-800/50">
-                        <span className={`text-lg md:text-2xl font-black ${item.status === 'Yes' ? 'text-green-400' : item.status === 'No' ? 'text-red-400' : 'text-gray-400'} pixel-reading uppercase`}>
-                           {item.status === 'Yes' ? '▶ YES' : item.status === 'No' ? '▶ NO' : item.status === 'Irrelevant' ? '▶ N/A' : `▶ ${item.status?.toUpperCase()}`}
-                        </span>
-                      </div>
-                    )}
-                    {item.response && (
-                      <div className="mt-1 md:mt-2 text-base md:text-xl text-gray-300 pixel-reading italic pl-3 md:pl-4 border-l border-[#555]">
-                        {item.response}
-                      </div>
-                    )}
-                  </div>
-                ))}
+                {history.map((item, idx) => renderInteraction(item, idx, history))}
                 <div ref={historyEndRef} />
                </div>
             </div>
@@ -898,7 +1216,7 @@ const App: React.FC = () => {
             <div className="lg:w-[450px] flex flex-col gap-3 md:gap-4 shrink-0 order-3 lg:order-2">
               <div className="hidden lg:flex parchment p-8 stone-border relative flex-shrink-0 overflow-y-auto max-h-[40%] flex-col">
                 <div className="text-[12px] text-[#8b4513] mb-2 border-b-2 border-[#bdae82] pb-1 font-black tracking-widest uppercase font-pixel-title">The Surface</div>
-                <p className="text-2xl leading-relaxed text-[#433422] pixel-reading font-bold italic">{currentPuzzle?.surface}</p>
+                <p className="text-2xl leading-relaxed text-[#433422] pixel-reading font-bold italic">{currentCase?.surface}</p>
               </div>
 
               <div className="stone-border p-3 md:p-6 flex flex-col min-h-0 bg-black/40 h-[28vh] lg:h-auto lg:flex-1">
@@ -920,12 +1238,34 @@ const App: React.FC = () => {
                 <div className="text-xs text-gray-400 text-right mb-2 font-bold">
                   {input.length}/1500
                 </div>
+                {inquiryNotice && (
+                  <div className="mb-2 md:mb-3 p-2 md:p-3 border-l-4 border-[#c5a059] bg-yellow-950/30 text-sm md:text-lg text-[#e8d9b0] pixel-reading italic shrink-0" role="status">
+                    {inquiryNotice.message}
+                    <div className="mt-2 flex gap-2 not-italic">
+                      {inquiryNotice.kind === 'guess' && (
+                        <button
+                          onClick={() => handleAction(true)}
+                          disabled={isLoading}
+                          className="px-3 py-1 bg-[#3d2f12] hover:bg-[#5a4519] text-[#c5a059] text-xs rounded"
+                        >
+                          Submit as solution
+                        </button>
+                      )}
+                      {inquiryNotice.kind !== 'repeat' && (
+                        <button
+                          onClick={() => handleAction(false, true)}
+                          disabled={isLoading}
+                          className="px-3 py-1 bg-[#222] hover:bg-[#333] text-gray-300 text-xs rounded"
+                        >
+                          Ask anyway
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
                 <div className="grid grid-cols-2 gap-2 md:gap-4 shrink-0">
                   <button
-                    onClick={() => {
-                      setLastAction({ type: 'question', input });
-                      handleAction(false);
-                    }}
+                    onClick={() => handleAction(false)}
                     disabled={isLoading || !input.trim()}
                     className="medieval-button py-3 md:py-6 text-[10px] md:text-[12px] font-black tracking-widest"
                     aria-label="Ask question"
@@ -933,10 +1273,7 @@ const App: React.FC = () => {
                     ASK
                   </button>
                   <button
-                    onClick={() => {
-                      setLastAction({ type: 'guess', input });
-                      handleAction(true);
-                    }}
+                    onClick={() => handleAction(true)}
                     disabled={isLoading || !input.trim()}
                     className="medieval-button py-3 md:py-6 text-[10px] md:text-[12px] font-black tracking-widest bg-[#222]"
                     aria-label="Submit final answer"
@@ -955,11 +1292,58 @@ const App: React.FC = () => {
           <div className="stone-border p-6 md:p-12 text-center max-w-4xl w-full bg-black/60">
             <h3 className="text-[#c5a059] text-2xl md:text-4xl mb-6 md:mb-10 font-black uppercase tracking-widest font-pixel-title">CASE REVEALED</h3>
             <div className="parchment p-6 md:p-12 border-4 border-[#bdae82] mb-8 md:mb-12 text-left shadow-2xl overflow-y-auto max-h-[50vh] lg:max-h-[40vh]">
-              <div className="text-[#433422] text-xl md:text-2xl leading-relaxed pixel-reading whitespace-pre-wrap font-bold">{currentPuzzle?.bottom}</div>
+              <div className="text-[#433422] text-xl md:text-2xl leading-relaxed pixel-reading whitespace-pre-wrap font-bold">{revealedPuzzle?.bottom}</div>
+              {keyFacts.length > 0 && (
+                <div className="mt-6 pt-4 border-t-2 border-[#bdae82]">
+                  <div className="text-[10px] text-[#8b4513] mb-2 font-black tracking-widest uppercase font-pixel-title">Facts Uncovered: {uncoveredFacts.size}/{keyFacts.length}</div>
+                  <ul className="space-y-1 text-lg md:text-xl pixel-reading font-bold">
+                    {keyFacts.map((fact, factIdx) => (
+                      <li key={factIdx} className={uncoveredFacts.has(factIdx) ? 'text-green-800' : 'text-[#7b0000]'}>
+                        {uncoveredFacts.has(factIdx) ? '✓' : '✗'} {fact}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
+            {lastScore && (
+              <div className="mb-8 md:mb-12 text-gray-200 pixel-reading font-bold" aria-label={`Score: ${lastScore.total} points`}>
+                <div className="text-[10px] text-[#c5a059] tracking-widest uppercase font-pixel-title mb-2">Score</div>
+                <div className="text-4xl md:text-6xl text-[#c5a059] font-black">{formatScore(lastScore.total)}</div>
+                <div className="mt-2 text-sm md:text-lg text-gray-400">
+                  {[
+                    `${formatScore(lastScore.base)} for the rank`,
+                    ...(lastScore.inquiryPenalty ? [`−${formatScore(lastScore.inquiryPenalty)} inquiries`] : []),
+                    ...(lastScore.hintPenalty ? [`−${formatScore(lastScore.hintPenalty)} hints`] : []),
+                    ...(lastScore.wrongGuessPenalty ? [`−${formatScore(lastScore.wrongGuessPenalty)} wrong solutions`] : []),
+                    ...(lastScore.timePenalty ? [`−${formatScore(lastScore.timePenalty)} time`] : [])
+                  ].join(' · ')}
+                  {' · '}{formatElapsed(lastScore.activeMs)} at work
+                </div>
+              </div>
+            )}
+            {unlockedAchievements.length > 0 && (
+              <div className="mb-8 md:mb-12 p-4 border-4 border-[#c5a059] bg-black/60 animate-page-entry" role="status">
+                <div className="text-[10px] text-[#c5a059] tracking-widest uppercase font-pixel-title mb-2">
+                  {unlockedAchievements.length === 1 ? 'Badge Earned' : 'Badges Earned'}
+                </div>
+                {unlockedAchievements.map(achievement => (
+                  <div key={achievement.id} className="text-gray-200 pixel-reading font-bold text-lg md:text-xl">
+                    <span aria-hidden="true">{achievement.badge}</span> {achievement.name} — <span className="text-gray-400">{achievement.description}</span>
+                    {achievement.title && <div className="text-[#c5a059]">New title: {achievement.title}</div>}
+                  </div>
+                ))}
+              </div>
+            )}
+            {finishedDailyEntry && (
+              <div className="mb-8 md:mb-12">
+                <div className="text-[10px] text-[#c5a059] tracking-widest uppercase font-pixel-title mb-2">Daily Case {finishedDailyEntry.daily} · share without spoilers</div>
+                {renderDailyShare(finishedDailyEntry)}
+              </div>
+            )}
             <div className="flex flex-col md:flex-row gap-4 md:gap-8">
               <button onClick={() => navigateTo(GameState.MENU)} className="medieval-button flex-1 py-4 md:py-8 text-xl md:text-2xl font-black">RETURN</button>
-              <button onClick={() => startGame(currentPuzzle?.difficulty || 'Medium')} className="medieval-button bg-[#7b0000] text-white flex-1 py-4 md:py-8 text-xl md:text-2xl font-black">NEW CASE</button>
+              <button onClick={() => startGame(currentCase?.difficulty || 'Medium')} className="medieval-button bg-[#7b0000] text-white flex-1 py-4 md:py-8 text-xl md:text-2xl font-black">NEW CASE</button>
             </div>
           </div>
         </div>
@@ -0,0 +1,162 @@
+import { HistoryEntry } from "./types";
+import { toDayKey } from "./usage";
+
+// Badges earned from the archive of finished cases, and the titles some of them confer. Nothing is stored beyond the
+// archive itself: replaying it tells which badges are earned and when, so they travel with an archive export.
+
+export type AchievementId =
+  | 'first_solve'
+  | 'knight_solve'
+  | 'lord_solve'
+  | 'quick_wit'
+  | 'three_in_a_row'
+  | 'daily_solve'
+  | 'self_reliant'
+  | 'ten_solved'
+  | 'sharp_mind'
+  | 'lord_unaided'
+  | 'week_of_vigil'
+  | 'fifty_solved';
+
+export interface Achievement {
+  id: AchievementId;
+  name: string;
+  description: string;
+  badge: string;          // Emoji shown in the gallery
+  title?: string;         // Conferred on the detective who earns the badge
+}
+
+export interface EarnedAchievement {
+  achievement: Achievement;
+  unlockedAt: number;     // Timestamp of the case that earned it
+}
+
+export const DEFAULT_TITLE = 'Wandering Novice';
+
+const QUICK_WIT_INQUIRIES = 10;
+const SHARP_MIND_INQUIRIES = 3;
+const DAY_STREAK = 7;
+
+const isSolved = (entry: HistoryEntry): boolean => entry.status === 'Solved';
+const isUnaided = (entry: HistoryEntry): boolean => isSolved(entry) && entry.hintsUsed === 0;
+
+// Each rule looks at the archive oldest first and returns the case that earned the badge, if any
+type AchievementRule = (chronological: HistoryEntry[]) => HistoryEntry | undefined;
+
+const nth = (count: number, predicate: (entry: HistoryEntry) => boolean): AchievementRule => {
+  return (chronological) => chronological.filter(predicate)[count - 1];
+};
+
+const inARow = (count: number): AchievementRule => (chronological) => {
+  let streak = 0;
+  return chronological.find(entry => {
+    streak = isSolved(entry) ? streak + 1 : 0;
+    return streak === count;
+  });
+};
+
+const dayAfter = (dayKey: string): string => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return toDayKey(new Date(year!, month! - 1, day! + 1, 12).getTime());
+};
+
+// A solved case on each of that many consecutive local days
+const dayStreak = (days: number): AchievementRule => (chronological) => {
+  let lastDay = '';
+  let streak = 0;
+  return chronological.filter(isSolved).find(entry => {
+    const day = toDayKey(entry.timestamp);
+    if (day === lastDay) return false;
+    streak = lastDay && day === dayAfter(lastDay) ? streak + 1 : 1;
+    lastDay = day;
+    return streak === days;
+  });
+};
+
+// Titled badges run from the humblest title to the grandest; a detective goes by the grandest one earned
+export const ACHIEVEMENTS: (Achievement & { earnedBy: AchievementRule })[] = [
+  {
+    id: 'first_solve', name: 'Opening Statement', badge: '📜', title: 'Village Snoop',
+    description: 'Solve your first case.',
+    earnedBy: nth(1, isSolved)
+  },
+  {
+    id: 'knight_solve', name: 'Dubbed', badge: '🛡️', title: 'Squire Investigator',
+    description: 'Solve a Knight case.',
+    earnedBy: nth(1, entry => isSolved(entry) && entry.puzzle.difficulty === 'Medium')
+  },
+  {
+    id: 'quick_wit', name: 'Quick Wit', badge: '⚡',
+    description: `Solve a case in under ${QUICK_WIT_INQUIRIES} inquiries.`,
+    earnedBy: nth(1, entry => isSolved(entry) && entry.interactionsCount < QUICK_WIT_INQUIRIES)
+  },
+  {
+    id: 'three_in_a_row', name: 'Unbroken', badge: '🔗',
+    description: 'Solve three cases in a row.',
+    earnedBy: inARow(3)
+  },
+  {
+    id: 'daily_solve', name: 'Town Crier', badge: '📅',
+    description: 'Solve a Daily Case.',
+    earnedBy: nth(1, entry => isSolved(entry) && entry.daily !== undefined)
+  },
+  {
+    id: 'lord_solve', name: 'Court Intrigue', badge: '👑', title: 'Knight Inquisitor',
+    description: 'Solve a Lord case.',
+    earnedBy: nth(1, entry => isSolved(entry) && entry.puzzle.difficulty === 'Hard')
+  },
+  {
+    id: 'self_reliant', name: 'Self-Reliant', badge: '🕯️',
+    description: 'Solve five cases without a hint.',
+    earnedBy: nth(5, isUnaided)
+  },
+  {
+    id: 'ten_solved', name: 'Seasoned Sleuth', badge: '🔍', title: 'Sheriff of Secrets',
+    description: 'Solve ten cases.',
+    earnedBy: nth(10, isSolved)
+  },
+  {
+    id: 'sharp_mind', name: 'Sharp Mind', badge: '🗡️', title: "The Oracle's Rival",
+    description: `Solve a case in ${SHARP_MIND_INQUIRIES} inquiries or fewer.`,
+    earnedBy: nth(1, entry => isSolved(entry) && entry.interactionsCount <= SHARP_MIND_INQUIRIES)
+  },
+  {
+    id: 'lord_unaided', name: 'Unaided Lordship', badge: '🏰', title: 'Lord Chancellor of Riddles',
+    description: 'Solve a Lord case without a hint.',
+    earnedBy: nth(1, entry => isUnaided(entry) && entry.puzzle.difficulty === 'Hard')
+  },
+  {
+    id: 'week_of_vigil', name: 'Week of Vigil', badge: '🌙', title: 'Warden of the Seven Nights',
+    description: `Solve a case on ${DAY_STREAK} days in a row.`,
+    earnedBy: dayStreak(DAY_STREAK)
+  },
+  {
+    id: 'fifty_solved', name: 'Keeper of the Chronicle', badge: '🏆', title: 'Grand Master of Secrets',
+    description: 'Solve fifty cases.',
+    earnedBy: nth(50, isSolved)
+  }
+];
+
+// The cases one detective played; null stands for those played without a profile
+export const entriesOfPlayer = (entries: HistoryEntry[], playerId: string | null): HistoryEntry[] => {
+  return entries.filter(entry => (entry.playerId ?? null) === playerId);
+};
+
+// Earned badges in the gallery's order
+export const computeAchievements = (entries: HistoryEntry[]): EarnedAchievement[] => {
+  const chronological = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+  return ACHIEVEMENTS.flatMap(({ earnedBy, ...achievement }) => {
+    const earner = earnedBy(chronological);
+    return earner ? [{ achievement, unlockedAt: earner.timestamp }] : [];
+  });
+};
+
+// Badges the newer archive has earned that the older one had not
+export const findNewAchievements = (before: HistoryEntry[], after: HistoryEntry[]): Achievement[] => {
+  const earned = new Set(computeAchievements(before).map(({ achievement }) => achievement.id));
+  return computeAchievements(after).map(({ achievement }) => achievement).filter(achievement => !earned.has(achievement.id));
+};
+
+export const grandestTitle = (earned: EarnedAchievement[]): string => {
+  return earned.reduce<string>((title, { achievement }) => achievement.title ?? title, DEFAULT_TITLE);
+};
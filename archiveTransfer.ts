@@ -0,0 +1,162 @@
+import { HistoryEntry, Interaction } from "./types";
+import { validateHistoryEntry } from "./savedGames";
+import { formatUsage } from "./usage";
+
+// Moving the archive between browsers and machines: versioned JSON for backups (the only format read back in),
+// Markdown and CSV for sharing and spreadsheets
+
+export const ARCHIVE_EXPORT_FORMAT = 'kingdom-secrets/archive';
+export const ARCHIVE_EXPORT_VERSION = 1;
+
+export type ArchiveExportKind = 'json' | 'markdown' | 'csv';
+
+export const ARCHIVE_EXPORT_FILES: Record<ArchiveExportKind, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  csv: { extension: 'csv', mimeType: 'text/csv' }
+};
+
+export interface ArchiveImportResult {
+  entries: HistoryEntry[]; // Valid entries, in file order
+  errors: string[];        // One readable message per rejected file or entry
+}
+
+export interface ArchiveMergeResult {
+  archive: HistoryEntry[]; // Newest first, one entry per id
+  added: number;
+  duplicates: number;      // Imported entries whose id was already archived (or repeated in the file)
+}
+
+const dateOf = (timestamp: number): string => new Date(timestamp).toISOString().slice(0, 10);
+
+export const archiveFileName = (kind: ArchiveExportKind, now = Date.now()): string => {
+  return `kingdom-secrets-archive-${dateOf(now)}.${ARCHIVE_EXPORT_FILES[kind].extension}`;
+};
+
+export const exportArchiveJson = (entries: HistoryEntry[]): string => {
+  return JSON.stringify({
+    format: ARCHIVE_EXPORT_FORMAT,
+    version: ARCHIVE_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries
+  }, null, 2);
+};
+
+const describeTurn = (interaction: Interaction): string => {
+  const verdict = interaction.refused ? 'Refused' : interaction.status ?? '';
+  const label = interaction.type === 'hint' ? 'Hint' : interaction.type === 'guess' ? 'Solution' : 'Question';
+  const content = interaction.type === 'hint' ? interaction.response : interaction.content;
+  return `- **${label}:** ${content}${verdict ? ` — *${verdict}*` : ''}`;
+};
+
+export const exportArchiveMarkdown = (entries: HistoryEntry[]): string => {
+  const lines = ['# Chronicle of Past Deeds', ''];
+  entries.forEach(entry => {
+    const details = [
+      dateOf(entry.timestamp),
+      entry.puzzle.difficulty,
+      entry.status,
+      `${entry.interactionsCount} inquiries`,
+      `${entry.hintsUsed} hints`,
+      ...(entry.nearMisses ? [`${entry.nearMisses} near misses`] : []),
+      ...(entry.usage ? [formatUsage(entry.usage)] : [])
+    ];
+    lines.push(`## ${entry.puzzle.title}`, '', details.join(' · '), '', `> ${entry.puzzle.surface}`, '');
+    if (entry.transcript && entry.transcript.length > 0) {
+      entry.transcript.forEach(interaction => lines.push(describeTurn(interaction)));
+      lines.push('');
+    }
+    lines.push(`**Truth:** ${entry.puzzle.bottom}`, '');
+  });
+  return lines.join('\n');
+};
+
+// Quotes a field when it holds a delimiter, a quote or a line break (RFC 4180)
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = ['id', 'date', 'title', 'difficulty', 'status', 'inquiries', 'hints', 'near_misses', 'total_tokens', 'cost_usd', 'surface', 'truth'];
+
+export const exportArchiveCsv = (entries: HistoryEntry[]): string => {
+  const rows = entries.map(entry => [
+    entry.id,
+    new Date(entry.timestamp).toISOString(),
+    entry.puzzle.title,
+    entry.puzzle.difficulty,
+    entry.status,
+    entry.interactionsCount,
+    entry.hintsUsed,
+    entry.nearMisses ?? 0,
+    entry.usage?.totalTokens ?? '',
+    entry.usage ? entry.usage.costUsd.toFixed(6) : '',
+    entry.puzzle.surface,
+    entry.puzzle.bottom
+  ].map(csvField).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export const exportArchive = (kind: ArchiveExportKind, entries: HistoryEntry[]): string => {
+  switch (kind) {
+    case 'json':
+      return exportArchiveJson(entries);
+    case 'markdown':
+      return exportArchiveMarkdown(entries);
+    case 'csv':
+      return exportArchiveCsv(entries);
+  }
+};
+
+// Reads an exported archive, or the bare entry array kept by older releases. Invalid entries are dropped and reported.
+export const importArchive = (text: string, source: string): ArchiveImportResult => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { entries: [], errors: [`${source}: not a JSON archive export (Markdown and CSV exports cannot be imported)`] };
+  }
+
+  let candidates: unknown[];
+  if (Array.isArray(data)) {
+    candidates = data;
+  } else if (data && typeof data === 'object' && data.format === ARCHIVE_EXPORT_FORMAT) {
+    if (typeof data.version !== 'number' || data.version > ARCHIVE_EXPORT_VERSION) {
+      return { entries: [], errors: [`${source}: unsupported archive version ${data.version} (this build reads up to ${ARCHIVE_EXPORT_VERSION})`] };
+    }
+    if (!Array.isArray(data.entries)) {
+      return { entries: [], errors: [`${source}: entries must be an array`] };
+    }
+    candidates = data.entries;
+  } else {
+    return { entries: [], errors: [`${source}: format must be "${ARCHIVE_EXPORT_FORMAT}"`] };
+  }
+
+  const entries: HistoryEntry[] = [];
+  const errors: string[] = [];
+  candidates.forEach((candidate: any, index) => {
+    if (validateHistoryEntry(candidate)) {
+      entries.push(candidate);
+      return;
+    }
+    const title = typeof candidate?.puzzle?.title === 'string' ? ` ("${candidate.puzzle.title}")` : '';
+    errors.push(`${source}: entry #${index + 1}${title} rejected: not a valid archive entry`);
+  });
+  return { entries, errors };
+};
+
+// Imported entries join the archive unless their id is already there; the archive stays newest first
+export const mergeArchive = (archive: HistoryEntry[], imported: HistoryEntry[]): ArchiveMergeResult => {
+  const ids = new Set(archive.map(entry => entry.id));
+  const added: HistoryEntry[] = [];
+  imported.forEach(entry => {
+    if (ids.has(entry.id)) return;
+    ids.add(entry.id);
+    added.push(entry);
+  });
+  return {
+    archive: [...archive, ...added].sort((a, b) => b.timestamp - a.timestamp),
+    added: added.length,
+    duplicates: imported.length - added.length
+  };
+};
@@ -0,0 +1,197 @@
+import { AudioPort, SoundEffect } from "./gameEngine";
+
+// Web Audio implementation of the engine's audio port: short synthesized effects, silently skipped where audio is unavailable
+
+export interface BrowserAudio extends AudioPort {
+  dispose: () => void;
+}
+
+export const createBrowserAudio = (): BrowserAudio => {
+  let context: AudioContext | null = null;
+  let initAttempts = 0; // Track failed audio initialization attempts
+  let disabled = false; // Flag to prevent repeated failed attempts
+
+  const getAudioContext = () => {
+    // If audio is disabled or we've failed too many times, don't try again
+    if (disabled || initAttempts >= 3) {
+      return null;
+    }
+
+    if (!context) {
+      try {
+        // Check for AudioContext support
+        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+        if (!AudioContextClass) {
+          console.warn('AudioContext not supported in this browser');
+          disabled = true;
+          return null;
+        }
+
+        context = new AudioContextClass();
+        initAttempts++;
+
+        // Resume context if suspended (required by some browsers)
+        if (context.state === 'suspended') {
+          context.resume().catch((err: unknown) => {
+            console.warn('Failed to resume AudioContext:', err);
+            // If resume fails, disable audio for this session
+            disabled = true;
+          });
+        }
+      } catch (error) {
+        console.warn('Failed to create AudioContext:', error);
+        disabled = true;
+        return null;
+      }
+    }
+    return context;
+  };
+
+  const play = (type: SoundEffect) => {
+    try {
+      const ctx = getAudioContext();
+      if (!ctx) {
+        console.debug('Audio not available, skipping sound effect');
+        return;
+      }
+      const gain = ctx.createGain();
+      gain.connect(ctx.destination);
+      const now = ctx.currentTime;
+
+      switch(type) {
+        case 'yes': {
+          const yOsc = ctx.createOscillator();
+          yOsc.connect(gain);
+          yOsc.type = 'square';
+          yOsc.frequency.setValueAtTime(523.25, now);
+          yOsc.frequency.exponentialRampToValueAtTime(659.25, now + 0.1);
+          gain.gain.setValueAtTime(0.45, now); // Increased volume
+          gain.gain.exponentialRampToValueAtTime(0.001, now + 0.2);
+          yOsc.start();
+          yOsc.stop(now + 0.2);
+          break;
+        }
+        case 'no': {
+          const nOsc = ctx.createOscillator();
+          nOsc.connect(gain);
+          nOsc.type = 'sawtooth';
+          nOsc.frequency.setValueAtTime(220, now);
+          nOsc.frequency.exponentialRampToValueAtTime(110, now + 0.15);
+          gain.gain.setValueAtTime(0.4, now); // Increased volume
+          gain.gain.exponentialRampToValueAtTime(0.001, now + 0.2);
+          nOsc.start();
+          nOsc.stop(now + 0.2);
+          break;
+        }
+        case 'correct': {
+          [523, 659, 783, 1046].forEach((f, i) => {
+            const o = ctx.createOscillator();
+            const g = ctx.createGain();
+            o.connect(g); g.connect(ctx.destination);
+            o.frequency.setValueAtTime(f, now + i * 0.1);
+            g.gain.setValueAtTime(0.35, now + i * 0.1); // Increased volume
+            g.gain.exponentialRampToValueAtTime(0.001, now + i * 0.1 + 0.3);
+            o.start(now + i * 0.1);
+            o.stop(now + i * 0.1 + 0.3);
+          });
+          break;
+        }
+        case 'fanfare': {
+          // Two rising trumpet calls, the last note held, for a badge earned
+          const calls: [number, number][] = [[392, 0], [523, 0.15], [392, 0.35], [523, 0.5], [659, 0.65], [784, 0.8]];
+          calls.forEach(([f, at], i) => {
+            const o = ctx.createOscillator();
+            const g = ctx.createGain();
+            o.type = 'square';
+            o.connect(g); g.connect(ctx.destination);
+            const length = i === calls.length - 1 ? 0.6 : 0.14;
+            o.frequency.setValueAtTime(f, now + at);
+            g.gain.setValueAtTime(0.2, now + at);
+            g.gain.exponentialRampToValueAtTime(0.001, now + at + length);
+            o.start(now + at);
+            o.stop(now + at + length);
+          });
+          break;
+        }
+        case 'solve_fail': {
+          const sfOsc = ctx.createOscillator();
+          sfOsc.connect(gain);
+          sfOsc.type = 'sine';
+          sfOsc.frequency.setValueAtTime(150, now);
+          sfOsc.frequency.setValueAtTime(100, now + 0.1);
+          gain.gain.setValueAtTime(0.6, now); // Increased volume
+          gain.gain.linearRampToValueAtTime(0, now + 0.3);
+          sfOsc.start();
+          sfOsc.stop(now + 0.3);
+          break;
+        }
+        case 'click': {
+          const clOsc = ctx.createOscillator();
+          clOsc.connect(gain);
+          clOsc.type = 'sine';
+          clOsc.frequency.setValueAtTime(120, now);
+          clOsc.frequency.exponentialRampToValueAtTime(40, now + 0.08);
+          gain.gain.setValueAtTime(0.6, now); // Increased volume
+          gain.gain.exponentialRampToValueAtTime(0.001, now + 0.08);
+          clOsc.start();
+          clOsc.stop(now + 0.08);
+          break;
+        }
+        case 'wood': {
+          // The preferred wood knock - reinforced for higher volume
+          const bandPass = ctx.createBiquadFilter();
+          bandPass.type = 'bandpass';
+          bandPass.frequency.setValueAtTime(300, now);
+          bandPass.Q.setValueAtTime(5, now);
+          bandPass.connect(gain);
+          const wOsc = ctx.createOscillator();
+          wOsc.type = 'sine';
+          wOsc.frequency.setValueAtTime(220, now);
+          wOsc.connect(bandPass);
+          gain.gain.setValueAtTime(0.8, now); // Maximum preferred volume
+          gain.gain.exponentialRampToValueAtTime(0.001, now + 0.3);
+          wOsc.start();
+          wOsc.stop(now + 0.3);
+          break;
+        }
+        case 'tick': {
+          const tOsc = ctx.createOscillator();
+          tOsc.connect(gain);
+          tOsc.type = 'triangle';
+          tOsc.frequency.setValueAtTime(200, now);
+          gain.gain.setValueAtTime(0.15, now); // Increased volume
+          gain.gain.exponentialRampToValueAtTime(0.001, now + 0.05);
+          tOsc.start();
+          tOsc.stop(now + 0.05);
+          break;
+        }
+        case 'hint': {
+          const hOsc = ctx.createOscillator();
+          hOsc.connect(gain);
+          hOsc.type = 'sine';
+          hOsc.frequency.setValueAtTime(880, now);
+          hOsc.frequency.exponentialRampToValueAtTime(1320, now + 0.2);
+          gain.gain.setValueAtTime(0.4, now); // Increased volume
+          gain.gain.exponentialRampToValueAtTime(0.001, now + 0.3);
+          hOsc.start();
+          hOsc.stop(now + 0.3);
+          break;
+        }
+      }
+    } catch (e) {}
+  };
+
+  const dispose = () => {
+    if (context && context.state !== 'closed') {
+      context.close().catch((err: unknown) => {
+        console.warn('Failed to close AudioContext:', err);
+      });
+    }
+    context = null;
+    // Reset audio state for potential re-initialization
+    initAttempts = 0;
+    disabled = false;
+  };
+
+  return { play, dispose };
+};
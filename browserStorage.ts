@@ -0,0 +1,359 @@
+import { HistoryEntry } from "./types";
+import { StoragePort } from "./gameEngine";
+import { DEFAULT_PLAYER_SETTINGS, EMPTY_PLAYER_PROFILES, PlayerProfiles, PlayerSettings, SavedSession, parseDailyAttempts, parseHistoryEntries, parsePlayerProfiles, parsePlayerSettings, parseSlots } from "./savedGames";
+
+// Versioned browser implementation of the engine's storage port. Records live in IndexedDB, or in localStorage where
+// IndexedDB is unavailable; they are read into memory (and migrated) once when the game loads, and written back in
+// the background. Problems are reported to the player rather than fixed by throwing saved games away.
+
+export const STORAGE_SCHEMA_VERSION = 1;
+
+const KEY_PREFIX = 'kingdom_secrets_';
+const DB_NAME = 'kingdom_secrets';
+const DB_VERSION = 1; // The IndexedDB layout (one key-value store), not the schema of the records in it
+const DB_STORE = 'records';
+const VERSION_KEY = 'schema_version';
+
+type RecordKey = 'archive' | 'slots' | 'settings' | 'profiles' | 'daily';
+type Records = Record<string, unknown>;
+
+const RECORD_KEYS: RecordKey[] = ['archive', 'slots', 'settings', 'profiles', 'daily'];
+
+const RECORD_LABELS: Record<RecordKey, string> = {
+  archive: 'the archive',
+  slots: 'your unfinished cases',
+  settings: 'your settings',
+  profiles: 'the detective profiles',
+  daily: 'your daily case attempts'
+};
+
+// Each migration lifts the records from the version before it. Add new ones at the end and bump STORAGE_SCHEMA_VERSION.
+const MIGRATIONS: { version: number; migrate: (records: Records) => Records }[] = [
+  {
+    // Version 1: the unversioned localStorage keys (history, the single open session, save slots, settings and the
+    // pack mode flag) become the archive, slots and settings records
+    version: 1,
+    migrate: (records) => ({
+      archive: records['history'] ?? [],
+      slots: [...(Array.isArray(records['slots']) ? records['slots'] : []), ...(records['session'] ? [records['session']] : [])],
+      settings: {
+        ...(typeof records['settings'] === 'object' ? records['settings'] : {}),
+        packOnly: records['pack_mode'] === true
+      }
+    })
+  }
+];
+
+const LEGACY_KEYS = ['history', 'session', 'slots', 'settings', 'pack_mode'];
+
+interface StorageBackend {
+  name: string;
+  read: (key: string) => Promise<unknown>;
+  write: (key: string, value: unknown) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+export interface BrowserStorage extends StoragePort {
+  backendName: () => string;
+  onProblem: (listener: (message: string) => void) => () => void;
+}
+
+const isQuotaError = (error: unknown): boolean => {
+  return error instanceof DOMException && (
+    error.code === 22 || // QUOTA_EXCEEDED_ERR
+    error.code === 1014 || // NS_ERROR_DOM_QUOTA_REACHED
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED'
+  );
+};
+
+const isLocalStorageAvailable = (): boolean => {
+  try {
+    return typeof localStorage !== 'undefined' && localStorage !== null;
+  } catch {
+    return false; // Some browsers throw on access when site data is blocked
+  }
+};
+
+const localStorageBackend: StorageBackend = {
+  name: 'localStorage',
+  read: async (key) => {
+    const raw = localStorage.getItem(KEY_PREFIX + key);
+    return raw === null ? undefined : JSON.parse(raw);
+  },
+  write: async (key, value) => localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value)),
+  remove: async (key) => localStorage.removeItem(KEY_PREFIX + key)
+};
+
+const openIndexedDb = (): Promise<StorageBackend> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(DB_STORE);
+    };
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB could not be opened'));
+    request.onsuccess = () => {
+      const db = request.result;
+      // Resolves once the transaction has committed, so a write that reports success is on disk
+      const run = <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+        return new Promise((resolveRun, rejectRun) => {
+          const transaction = db.transaction(DB_STORE, mode);
+          const storeRequest = operation(transaction.objectStore(DB_STORE));
+          transaction.oncomplete = () => resolveRun(storeRequest.result);
+          transaction.onerror = () => rejectRun(transaction.error ?? storeRequest.error);
+          transaction.onabort = () => rejectRun(transaction.error ?? new Error('IndexedDB transaction aborted'));
+        });
+      };
+      resolve({
+        name: 'IndexedDB',
+        read: (key) => run('readonly', store => store.get(key)),
+        write: async (key, value) => {
+          await run('readwrite', store => store.put(value, key));
+        },
+        remove: async (key) => {
+          await run('readwrite', store => store.delete(key));
+        }
+      });
+    };
+  });
+};
+
+interface StoredRecords {
+  version: number;
+  records: Records;
+  unreadable: string[]; // Keys whose data is there but could not be read; they must not be written over
+}
+
+// An unreadable record reads as missing and is listed, so the caller can keep it from being replaced
+const readRecords = async (backend: StorageBackend, keys: string[]): Promise<{ records: Records; unreadable: string[] }> => {
+  const records: Records = {};
+  const unreadable: string[] = [];
+  for (const key of keys) {
+    try {
+      records[key] = await backend.read(key);
+    } catch (error) {
+      console.warn(`Skipping unreadable saved data under ${key} in ${backend.name}:`, error);
+      unreadable.push(key);
+    }
+  }
+  return { records, unreadable };
+};
+
+// An unreadable version throws: without it nothing is known about the store, so nothing may be written over it
+const readStore = async (backend: StorageBackend): Promise<StoredRecords | null> => {
+  const version = await backend.read(VERSION_KEY);
+  if (typeof version !== 'number') return null;
+  return { version, ...await readRecords(backend, RECORD_KEYS) };
+};
+
+// Data saved before the storage was versioned: loose localStorage keys, read as schema version 0
+const readLegacyStore = async (): Promise<StoredRecords> => {
+  return { version: 0, ...await readRecords(localStorageBackend, LEGACY_KEYS) };
+};
+
+export const createBrowserStorage = (): BrowserStorage => {
+  let backend: StorageBackend | null = null; // Null until opened, and when nothing can be saved at all
+  let readOnly = false; // Set when the saved data comes from a newer version of the game
+  const unreadable = new Set<RecordKey>(); // Records that failed to read; they stay as they are for the session
+  let archive: HistoryEntry[] = [];
+  let slots: SavedSession[] = [];
+  let settings: PlayerSettings = DEFAULT_PLAYER_SETTINGS;
+  let profiles: PlayerProfiles = EMPTY_PLAYER_PROFILES;
+  let dailyAttempts: string[] = [];
+  let opening: Promise<void> | null = null;
+
+  const problemListeners = new Set<(message: string) => void>();
+  const reportProblem = (message: string) => {
+    console.warn('💾 Storage problem:', message);
+    problemListeners.forEach(listener => listener(message));
+  };
+
+  // Writes are queued per record so only the latest value of each is written, one at a time
+  const pending = new Map<RecordKey, unknown>();
+  const failing = new Set<RecordKey>();
+  let flushing = false;
+
+  const flush = async () => {
+    if (flushing || !backend) return;
+    flushing = true;
+    for (const [key, value] of pending) {
+      pending.delete(key);
+      try {
+        await backend.write(key, value);
+        failing.delete(key);
+      } catch (error) {
+        console.error(`Failed to save ${key}:`, error);
+        // Report once per record until a save of it succeeds again
+        if (failing.has(key)) continue;
+        failing.add(key);
+        reportProblem(isQuotaError(error)
+          ? `Browser storage is full, so ${RECORD_LABELS[key]} could not be saved. Free some space for this site; nothing has been deleted.`
+          : `Saving ${RECORD_LABELS[key]} failed (${error instanceof Error ? error.message : String(error)}).`);
+      }
+    }
+    flushing = false;
+  };
+
+  // Nothing is written before the saved games have been read, nor when there is nowhere to write them
+  const save = (key: RecordKey, value: unknown): boolean => {
+    if (readOnly || !backend || unreadable.has(key)) return false;
+    pending.set(key, value);
+    void flush();
+    return true;
+  };
+
+  const openBackend = async (): Promise<StorageBackend | null> => {
+    try {
+      return await openIndexedDb();
+    } catch (error) {
+      console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+    }
+    if (isLocalStorageAvailable()) return localStorageBackend;
+    reportProblem('This browser does not allow the game to save. Progress will be lost when the page closes.');
+    return null;
+  };
+
+  const load = async () => {
+    const opened = await openBackend();
+    if (!opened) return;
+
+    // Prefer the versioned store, then one left in localStorage by an earlier fallback, then the old loose keys
+    const fromLocalStorage = opened !== localStorageBackend && isLocalStorageAvailable();
+    let stored = await readStore(opened);
+    let source = opened;
+    if (!stored && fromLocalStorage) {
+      stored = await readStore(localStorageBackend);
+      source = localStorageBackend;
+    }
+    if (!stored && isLocalStorageAvailable()) {
+      stored = await readLegacyStore();
+      source = localStorageBackend;
+    }
+    let { version, records } = stored ?? { version: STORAGE_SCHEMA_VERSION, records: {} as Records };
+    const lost = stored?.unreadable ?? [];
+
+    if (version > STORAGE_SCHEMA_VERSION) {
+      readOnly = true;
+      reportProblem('These saved games were written by a newer version of Kingdom Secrets. They are shown, but nothing will be saved until the game is updated.');
+    }
+    if (lost.length > 0 && version < STORAGE_SCHEMA_VERSION && !readOnly) {
+      // A migration rewrites every record, so it waits until all of them can be read
+      readOnly = true;
+      reportProblem('Some saved games could not be read, so they were not moved to the new format and nothing will be saved this session. Reload the page to try again.');
+    } else {
+      // Kept read-only rather than replaced by whatever is saved next
+      RECORD_KEYS.filter(key => lost.includes(key)).forEach(key => {
+        unreadable.add(key);
+        const label = RECORD_LABELS[key];
+        reportProblem(`${label.charAt(0).toUpperCase()}${label.slice(1)} could not be read. It is left untouched and will not be saved this session; reload the page to try again.`);
+      });
+    }
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= version) continue;
+      console.log(`💾 Migrating saved games to schema version ${migration.version}`);
+      records = migration.migrate(records);
+      version = migration.version;
+    }
+
+    if (records['archive'] !== undefined) {
+      try {
+        archive = parseHistoryEntries(records['archive']);
+        const skipped = Array.isArray(records['archive']) ? records['archive'].length - archive.length : 0;
+        if (skipped > 0) reportProblem(`${skipped} archived ${skipped === 1 ? 'case was' : 'cases were'} unreadable and left out.`);
+      } catch (error) {
+        console.error('Failed to read the archive:', error);
+        unreadable.add('archive');
+        reportProblem('The archive could not be read. It is left untouched and new cases will not be archived this session.');
+      }
+    }
+    slots = parseSlots(records['slots']);
+    settings = parsePlayerSettings(records['settings']);
+    profiles = parsePlayerProfiles(records['profiles']);
+    dailyAttempts = parseDailyAttempts(records['daily']);
+    backend = opened;
+    console.log(`💾 Saved games opened from ${source.name}, schema version ${version}`);
+
+    if (readOnly || (source === opened && stored?.version === STORAGE_SCHEMA_VERSION)) return;
+    // Write the migrated records before the version, so an interrupted migration simply runs again
+    try {
+      for (const key of RECORD_KEYS) {
+        await opened.write(key, { archive, slots, settings, profiles, daily: dailyAttempts }[key]);
+      }
+      await opened.write(VERSION_KEY, STORAGE_SCHEMA_VERSION);
+      if (source === localStorageBackend && opened !== localStorageBackend) {
+        for (const key of [...LEGACY_KEYS, ...RECORD_KEYS, VERSION_KEY]) await localStorageBackend.remove(key);
+      } else if (source === localStorageBackend) {
+        for (const key of LEGACY_KEYS.filter(key => !(RECORD_KEYS as string[]).includes(key))) await localStorageBackend.remove(key);
+      }
+    } catch (error) {
+      console.error('Failed to write migrated saved games:', error);
+      reportProblem(isQuotaError(error)
+        ? 'Browser storage is full, so older saved games could not be moved to the new format. They are still in place.'
+        : 'Older saved games could not be moved to the new format. They are still in place.');
+    }
+  };
+
+  return {
+    open: () => {
+      opening ??= load().catch((error: unknown) => {
+        console.error('Failed to open saved games:', error);
+        reportProblem('Saved games could not be opened. Progress made now may not be kept.');
+      });
+      return opening;
+    },
+
+    loadArchive: () => archive,
+
+    saveArchive: (entries) => {
+      archive = entries;
+      return save('archive', entries);
+    },
+
+    listSlots: () => slots,
+
+    saveSlot: (session) => {
+      slots = [...slots.filter(slot => slot.slotId !== session.slotId), session];
+      return save('slots', slots);
+    },
+
+    deleteSlot: (slotId) => {
+      if (!slots.some(slot => slot.slotId === slotId)) return;
+      slots = slots.filter(slot => slot.slotId !== slotId);
+      save('slots', slots);
+    },
+
+    loadSettings: () => settings,
+
+    saveSettings: (next) => {
+      settings = next;
+      return save('settings', next);
+    },
+
+    loadProfiles: () => profiles,
+
+    saveProfiles: (next) => {
+      profiles = next;
+      return save('profiles', next);
+    },
+
+    loadDailyAttempts: () => dailyAttempts,
+
+    saveDailyAttempts: (days) => {
+      dailyAttempts = days;
+      return save('daily', days);
+    },
+
+    backendName: () => backend?.name ?? 'memory',
+
+    onProblem: (listener) => {
+      problemListeners.add(listener);
+      return () => {
+        problemListeners.delete(listener);
+      };
+    }
+  };
+};
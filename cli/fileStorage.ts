@@ -0,0 +1,53 @@
+import fs from 'fs';
+import path from 'path';
+import { StoragePort } from '../gameEngine';
+import { DEFAULT_PLAYER_SETTINGS, EMPTY_PLAYER_PROFILES, parseDailyAttempts, safeParseHistoryData } from '../savedGames';
+
+// Keeps the terminal archive (and the days whose daily case was opened) in JSON files. Open cases live in the
+// in-process game master and end with the process, so there are no save slots to continue from.
+
+export const createFileStorage = (dataDir: string): StoragePort => {
+  const archivePath = path.join(dataDir, 'archive.json');
+  const dailyPath = path.join(dataDir, 'daily.json');
+
+  const writeJson = (filePath: string, value: unknown, label: string): boolean => {
+    try {
+      fs.mkdirSync(dataDir, { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(value, null, 2), 'utf-8');
+      return true;
+    } catch (error) {
+      console.error(`Failed to save ${label}:`, error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  };
+
+  return {
+    open: async () => {},
+
+    loadArchive: () => {
+      if (!fs.existsSync(archivePath)) return [];
+      return safeParseHistoryData(fs.readFileSync(archivePath, 'utf-8'));
+    },
+
+    saveArchive: (entries) => writeJson(archivePath, entries, 'the archive'),
+
+    listSlots: () => [],
+    saveSlot: () => true,
+    deleteSlot: () => {},
+    loadSettings: () => DEFAULT_PLAYER_SETTINGS,
+    saveSettings: () => true,
+    loadProfiles: () => EMPTY_PLAYER_PROFILES,
+    saveProfiles: () => true,
+
+    loadDailyAttempts: () => {
+      try {
+        return fs.existsSync(dailyPath) ? parseDailyAttempts(JSON.parse(fs.readFileSync(dailyPath, 'utf-8'))) : [];
+      } catch (error) {
+        console.error('Failed to read the daily case attempts:', error instanceof Error ? error.message : String(error));
+        return [];
+      }
+    },
+
+    saveDailyAttempts: (days) => writeJson(dailyPath, days, 'the daily case attempts')
+  };
+};
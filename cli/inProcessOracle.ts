@@ -0,0 +1,24 @@
+import { FailureNotice, OraclePort } from '../gameEngine';
+import { GameMaster, GameMasterError } from '../server/gameMaster';
+import { MODEL_ERROR_DESCRIPTIONS, classifyModelError } from '../modelErrors';
+
+// The game engine's oracle port, served by a game master running inside the same process (no HTTP in between)
+
+const describeFailure = (error: unknown, fallback: string): FailureNotice => {
+  if (error instanceof GameMasterError) {
+    return { message: error.message || fallback, retryable: error.status >= 500 };
+  }
+  const description = MODEL_ERROR_DESCRIPTIONS[classifyModelError(error)];
+  return { message: description.message || fallback, retryable: description.retryable };
+};
+
+export const createInProcessOracle = (gameMaster: GameMaster): OraclePort => ({
+  startCase: (difficulty, played, packOnly, options) => gameMaster.startCase({ difficulty, played, packOnly }, options?.signal),
+  startDailyCase: async (day) => gameMaster.startDailyCase(day),
+  fetchCase: async (sessionId) => gameMaster.getCase(sessionId),
+  askQuestion: (sessionId, question, options) => gameMaster.ask(sessionId, question, options?.signal),
+  submitGuess: (sessionId, guess, options) => gameMaster.guess(sessionId, guess, options?.signal),
+  requestHint: (sessionId, options) => gameMaster.hint(sessionId, options?.signal),
+  surrenderCase: async (sessionId) => gameMaster.surrender(sessionId),
+  describeFailure
+});
@@ -0,0 +1,356 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import { loadEnv } from 'vite';
+import { Difficulty, GameState, HistoryEntry } from '../types';
+import { GameEngine, GameSnapshot, StoragePort, createGameEngine } from '../gameEngine';
+import { DEFAULT_PLAYER_SETTINGS, EMPTY_PLAYER_PROFILES } from '../savedGames';
+import { findDailyEntry, formatDailyShare } from '../dailyCase';
+import { ARCHIVE_EXPORT_FILES, ArchiveExportKind, exportArchive, importArchive, mergeArchive } from '../archiveTransfer';
+import { createDefaultGameMaster, createDefaultRoutingSettings } from '../server/setup';
+import { createInProcessOracle } from './inProcessOracle';
+import { createFileStorage } from './fileStorage';
+import { DIFFICULTY_RANKS, LAWS_OF_INQUIRY, PLAYING_HELP, formatArchive, formatCaseFile, formatInteraction, formatCaseScore, formatReveal, formatStats, formatUnlockedAchievements } from './terminalView';
+
+// Terminal client: `npm run cli`. Plays through the same game engine as the browser, with the game master in-process.
+// `npm run cli -- --script questions.txt --difficulty Hard` replays a file of commands without prompting.
+
+const USAGE = `Usage: npm run cli -- [options]
+
+  -d, --difficulty <level>  Easy|Medium|Hard (or Peasant|Knight|Lord); scripts default to Medium
+  -s, --script <file>       Play one case from a file of commands, one per line, then exit
+      --packs               Draw cases from the installed puzzle packs only
+      --archive             Print the archive and exit
+      --export <format>     Write the archive to stdout as json, markdown or csv and exit
+      --import <file>       Merge an exported JSON archive into this one and exit
+      --data-dir <dir>      Where the archive is kept (default $KINGDOM_SECRETS_HOME or ~/.kingdom-secrets)
+  -v, --verbose             Show the game master's own logging
+  -h, --help                Show this help
+
+Script lines use the in-game commands (/solve, /ask, /hint, /surrender); any other line is asked as a question.
+Blank lines and lines starting with # are skipped.`;
+
+const DIFFICULTY_ALIASES: Record<string, Difficulty> = {
+  easy: 'Easy', peasant: 'Easy', '1': 'Easy',
+  medium: 'Medium', knight: 'Medium', '2': 'Medium',
+  hard: 'Hard', lord: 'Hard', '3': 'Hard'
+};
+
+const print = (text = '') => {
+  process.stdout.write(`${text}\n`);
+};
+
+const parseDifficulty = (value: string): Difficulty => {
+  const difficulty = DIFFICULTY_ALIASES[value.trim().toLowerCase()];
+  if (!difficulty) throw new Error(`Unknown difficulty "${value}" (expected Easy, Medium or Hard)`);
+  return difficulty;
+};
+
+// Resolves once the engine reaches a snapshot the predicate accepts (e.g. the reveal screen after a correct guess)
+const waitFor = (engine: GameEngine, predicate: (snapshot: GameSnapshot) => boolean): Promise<void> => {
+  return new Promise(resolve => {
+    if (predicate(engine.getSnapshot())) {
+      resolve();
+      return;
+    }
+    const unsubscribe = engine.subscribe(() => {
+      if (!predicate(engine.getSnapshot())) return;
+      unsubscribe();
+      resolve();
+    });
+  });
+};
+
+// Prints whatever the last event added: new log entries, an objection to the wording, or a failure
+const createReporter = (engine: GameEngine) => {
+  let printed = 0;
+  let failures = 0;
+
+  return {
+    reset: () => {
+      printed = engine.getSnapshot().history.length;
+    },
+    report: async () => {
+      const snapshot = engine.getSnapshot();
+      snapshot.history.slice(printed).forEach(interaction => print(formatInteraction(interaction)));
+      printed = snapshot.history.length;
+      if (snapshot.inquiryNotice) print(`  ${snapshot.inquiryNotice.message}`);
+      if (snapshot.error) {
+        failures++;
+        print(`⚠️ ${snapshot.error.message}${snapshot.error.retryable ? '' : ' (retrying will not help)'}`);
+        await engine.dispatch({ type: 'DISMISS_ERROR' });
+      }
+    },
+    failures: () => failures
+  };
+};
+
+type Reporter = ReturnType<typeof createReporter>;
+
+// One line of play; returns false when the player leaves the case
+const playLine = async (engine: GameEngine, reporter: Reporter, line: string, forceQuestions: boolean): Promise<boolean> => {
+  const [first = '', ...rest] = line.trim().split(/\s+/);
+  const command = first.toLowerCase();
+  const argument = rest.join(' ');
+  if ((command === '/solve' || command === '/ask') && !argument) {
+    print(`${command} needs some words after it.`);
+    return true;
+  }
+  switch (command) {
+    case '/solve':
+      await engine.dispatch({ type: 'SOLVE', text: argument });
+      break;
+    case '/ask':
+      await engine.dispatch({ type: 'ASK', text: argument, force: true });
+      break;
+    case '/hint':
+      if (engine.getSnapshot().hintsRemaining <= 0) print('No hints remain for this case.');
+      await engine.dispatch({ type: 'REQUEST_HINT' });
+      break;
+    case '/surrender':
+      await engine.dispatch({ type: 'SURRENDER' });
+      break;
+    case '/menu':
+      await engine.dispatch({ type: 'NAVIGATE', to: GameState.MENU });
+      print('The case is left unsolved.');
+      return false;
+    case '/help':
+      print(PLAYING_HELP);
+      return true;
+    default:
+      await engine.dispatch({ type: 'ASK', text: line.trim(), force: forceQuestions });
+  }
+  await reporter.report();
+  return true;
+};
+
+const isCaseOpen = (snapshot: GameSnapshot): boolean => {
+  return snapshot.gameState === GameState.PLAYING && snapshot.revealedPuzzle === null;
+};
+
+// Opens a case (or today's daily case) and prints its surface; false when the oracle could not open one
+const openCase = async (engine: GameEngine, reporter: Reporter, difficulty: Difficulty | 'daily', packOnly: boolean): Promise<boolean> => {
+  if (difficulty === 'daily') {
+    print("The Chronicler is unrolling today's daily case...");
+    await engine.dispatch({ type: 'START_DAILY' });
+  } else {
+    print(`The Chronicler is unrolling the archives for a ${DIFFICULTY_RANKS[difficulty]}...`);
+    await engine.dispatch({ type: 'START_CASE', difficulty, packOnly });
+  }
+  const snapshot = engine.getSnapshot();
+  if (snapshot.gameState !== GameState.PLAYING || !snapshot.currentCase) {
+    await reporter.report();
+    return false;
+  }
+  reporter.reset();
+  print();
+  print(formatCaseFile(snapshot.currentCase, snapshot.hintsRemaining));
+  return true;
+};
+
+const finishCase = async (engine: GameEngine) => {
+  const snapshot = engine.getSnapshot();
+  if (!snapshot.revealedPuzzle) return;
+  await waitFor(engine, next => next.gameState === GameState.FINISHED);
+  print();
+  print(formatReveal(snapshot.revealedPuzzle, snapshot.history));
+  const { lastScore, archive, unlockedAchievements } = engine.getSnapshot();
+  if (lastScore) {
+    print();
+    print(formatCaseScore(lastScore));
+  }
+  if (unlockedAchievements.length > 0) {
+    print();
+    print(formatUnlockedAchievements(unlockedAchievements));
+  }
+  const dailyEntry = snapshot.currentCase?.daily ? findDailyEntry(archive, snapshot.currentCase.daily) : undefined;
+  if (dailyEntry) {
+    print();
+    print('Share your result:');
+    print(formatDailyShare(dailyEntry));
+  }
+  print();
+  await engine.dispatch({ type: 'NAVIGATE', to: GameState.MENU });
+};
+
+const runScript = async (engine: GameEngine, scriptPath: string, difficulty: Difficulty, packOnly: boolean): Promise<number> => {
+  const lines = fs.readFileSync(scriptPath, 'utf-8')
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+
+  const reporter = createReporter(engine);
+  await engine.dispatch({ type: 'LOAD' });
+  if (!await openCase(engine, reporter, difficulty, packOnly)) return 1;
+
+  for (const line of lines) {
+    if (!isCaseOpen(engine.getSnapshot())) break;
+    print();
+    print(`> ${line}`);
+    // Scripted questions go straight to the oracle: the point is to see what it answers
+    if (!await playLine(engine, reporter, line, true)) break;
+  }
+
+  // A case the script leaves open is surrendered, so the run always ends with the truth to compare against
+  if (isCaseOpen(engine.getSnapshot())) {
+    print();
+    print('> /surrender (end of script)');
+    await playLine(engine, reporter, '/surrender', true);
+  }
+  await finishCase(engine);
+  return reporter.failures() > 0 ? 1 : 0;
+};
+
+const runInteractive = async (engine: GameEngine, packOnly: boolean, difficulty: Difficulty | undefined) => {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  // Lines are buffered by the iterator, so piped input typed ahead of the prompt is not lost
+  const lines = rl[Symbol.asyncIterator]();
+  const prompt = async (query: string): Promise<string | null> => {
+    rl.setPrompt(query);
+    rl.prompt();
+    const next = await lines.next();
+    return next.done ? null : next.value; // null once stdin ends
+  };
+
+  const reporter = createReporter(engine);
+  await engine.dispatch({ type: 'LOAD' });
+  let nextDifficulty: Difficulty | 'daily' | undefined = difficulty;
+
+  try {
+    while (true) {
+      if (!nextDifficulty) {
+        print();
+        print('KINGDOM SECRETS — RIDDLE INVESTIGATION');
+        print('  [d] Daily Case  [1] Peasant (Easy)  [2] Knight (Medium)  [3] Lord (Hard)');
+        print('  [a] Archives  [s] Stats  [l] Laws  [q] Quit');
+        const choice = (await prompt('> '))?.trim().toLowerCase();
+        if (choice === undefined || choice === 'q') break;
+        const screen = choice === 'a' ? GameState.HISTORY : choice === 's' ? GameState.STATS : choice === 'l' ? GameState.RULES : null;
+        if (screen) {
+          await engine.dispatch({ type: 'NAVIGATE', to: screen });
+          const { archive } = engine.getSnapshot();
+          print();
+          print(screen === GameState.HISTORY ? formatArchive(archive) : screen === GameState.STATS ? formatStats(archive) : LAWS_OF_INQUIRY);
+          await engine.dispatch({ type: 'NAVIGATE', to: GameState.MENU });
+          continue;
+        }
+        const chosen = choice === 'd' ? 'daily' : DIFFICULTY_ALIASES[choice];
+        if (!chosen) continue;
+        nextDifficulty = chosen;
+      }
+
+      const opened = await openCase(engine, reporter, nextDifficulty, packOnly);
+      nextDifficulty = undefined;
+      if (!opened) continue;
+      print('Type /help for the commands.');
+
+      while (isCaseOpen(engine.getSnapshot())) {
+        const line = await prompt('? ');
+        if (line === null) return;
+        if (!line.trim()) continue;
+        if (!await playLine(engine, reporter, line, false)) break;
+      }
+      await finishCase(engine);
+    }
+  } finally {
+    rl.close();
+  }
+};
+
+const main = async (): Promise<number> => {
+  const { values } = parseArgs({
+    options: {
+      difficulty: { type: 'string', short: 'd' },
+      script: { type: 'string', short: 's' },
+      packs: { type: 'boolean', default: false },
+      archive: { type: 'boolean', default: false },
+      export: { type: 'string' },
+      import: { type: 'string' },
+      'data-dir': { type: 'string' },
+      verbose: { type: 'boolean', short: 'v', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  if (values.help) {
+    print(USAGE);
+    return 0;
+  }
+
+  const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+  const env = loadEnv(process.env['NODE_ENV'] ?? 'development', rootDir, '');
+  Object.entries(env).forEach(([key, value]) => {
+    if (process.env[key] === undefined) process.env[key] = value;
+  });
+  // The game master and the engine narrate every step; keep the terminal for the game unless asked
+  if (!values.verbose) {
+    console.log = () => {};
+    console.debug = () => {};
+  }
+
+  const dataDir = values['data-dir'] ?? process.env['KINGDOM_SECRETS_HOME'] ?? path.join(os.homedir(), '.kingdom-secrets');
+  const difficulty = values.difficulty !== undefined ? parseDifficulty(values.difficulty) : undefined;
+
+  if (values.archive) {
+    print(formatArchive(createFileStorage(dataDir).loadArchive()));
+    return 0;
+  }
+  if (values.export !== undefined) {
+    const kind = values.export.toLowerCase() as ArchiveExportKind;
+    if (!Object.hasOwn(ARCHIVE_EXPORT_FILES, kind)) throw new Error(`Unknown export format "${values.export}" (expected json, markdown or csv)`);
+    print(exportArchive(kind, createFileStorage(dataDir).loadArchive()));
+    return 0;
+  }
+  if (values.import !== undefined) {
+    const storage = createFileStorage(dataDir);
+    const { entries, errors } = importArchive(fs.readFileSync(values.import, 'utf-8'), path.basename(values.import));
+    const { archive, added, duplicates } = mergeArchive(storage.loadArchive(), entries);
+    errors.forEach(importError => print(`⚠️ ${importError}`));
+    if (added > 0 && !storage.saveArchive(archive)) return 1;
+    print(`Imported ${added} cases, skipped ${duplicates} already archived, rejected ${errors.length}.`);
+    return errors.length > 0 ? 1 : 0;
+  }
+
+  createDefaultRoutingSettings(rootDir);
+  const oracle = createInProcessOracle(createDefaultGameMaster(rootDir));
+
+  if (values.script !== undefined) {
+    // Reproduction runs leave the player's archive alone
+    let archive: HistoryEntry[] = [];
+    const scratch: StoragePort = {
+      open: async () => {},
+      loadArchive: () => archive,
+      saveArchive: (entries) => {
+        archive = entries;
+        return true;
+      },
+      listSlots: () => [],
+      saveSlot: () => true,
+      deleteSlot: () => {},
+      loadSettings: () => DEFAULT_PLAYER_SETTINGS,
+      saveSettings: () => true,
+      loadProfiles: () => EMPTY_PLAYER_PROFILES,
+      saveProfiles: () => true,
+      loadDailyAttempts: () => [],
+      saveDailyAttempts: () => true
+    };
+    const engine = createGameEngine({ oracle, storage: scratch, audio: { play: () => {} } }, { revealDelayMs: 0 });
+    return runScript(engine, values.script, difficulty ?? 'Medium', values.packs);
+  }
+
+  const engine = createGameEngine({ oracle, storage: createFileStorage(dataDir), audio: { play: () => {} } }, { revealDelayMs: 0 });
+  await runInteractive(engine, values.packs, difficulty);
+  engine.dispose();
+  return 0;
+};
+
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch((error: unknown) => {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  });
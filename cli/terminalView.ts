@@ -0,0 +1,138 @@
+import { CaseFile, CaseScore, Difficulty, HistoryEntry, Interaction, Puzzle } from '../types';
+import { getKeyFacts, getUncoveredFactIndexes } from '../keyFacts';
+import { formatUsage, summarizeUsageByDifficulty } from '../usage';
+import { computeDetectiveStats, formatAverage, formatRate } from '../detectiveStats';
+import { formatScore } from '../scoring';
+import { ACHIEVEMENTS, Achievement, computeAchievements, grandestTitle } from '../achievements';
+
+// Plain-text renderings of the game screens for the terminal client
+
+export const DIFFICULTY_RANKS: Record<Difficulty, string> = { Easy: 'Peasant', Medium: 'Knight', Hard: 'Lord' };
+
+const STATUS_LABELS: Record<string, string> = {
+  Yes: 'YES',
+  No: 'NO',
+  Irrelevant: 'N/A',
+  Close: 'CLOSE',
+  Correct: 'CORRECT',
+  Incorrect: 'INCORRECT',
+  Clue: 'CLUE'
+};
+
+export const LAWS_OF_INQUIRY = [
+  'LAWS OF INQUIRY',
+  '  Fragments of Truth: the Chronicler speaks a bizarre scenario. The truth is hidden in shadows.',
+  '  Inquiry Taboos: your questions are answered with "Yes", "No" or "Irrelevant".',
+  '  Final Judgment: submit your solution with /solve for judgment.',
+  '  The Archives: every completed case is stored in the archive.'
+].join('\n');
+
+export const PLAYING_HELP = [
+  'Type a yes/no question to ask it, or:',
+  '  /solve <solution>   lay your solution before the Chronicler',
+  '  /ask <question>     ask anyway when the Chronicler objects to the wording',
+  '  /hint               seek a clue',
+  '  /surrender          give up and hear the truth',
+  '  /menu               leave the case and return to the menu',
+  '  /help               show this list'
+].join('\n');
+
+export const formatCaseFile = (caseFile: CaseFile, hintsRemaining: number): string => {
+  return [
+    `CASE: ${caseFile.title} (${DIFFICULTY_RANKS[caseFile.difficulty]}, ${caseFile.difficulty})`,
+    '',
+    `  "${caseFile.surface}"`,
+    '',
+    `Hints remaining: ${hintsRemaining}${caseFile.keyFactCount > 0 ? ` | Key facts to uncover: ${caseFile.keyFactCount}` : ''}`
+  ].join('\n');
+};
+
+export const formatInteraction = (interaction: Interaction): string => {
+  const status = interaction.refused ? 'REFUSED' : interaction.status ? STATUS_LABELS[interaction.status] ?? interaction.status.toUpperCase() : '';
+  const notes = [
+    interaction.cached ? '(from the record)' : '',
+    interaction.amends !== undefined ? `(amends "${interaction.amends}")` : ''
+  ].filter(note => note);
+  const lines = [`${interaction.type === 'hint' ? '✦' : '▶'} ${status}${notes.length > 0 ? ` ${notes.join(' ')}` : ''}`];
+  if (interaction.response) lines.push(`  ${interaction.response}`);
+  interaction.matchedElements?.forEach(element => lines.push(`  ✓ ${element}`));
+  interaction.missingElements?.forEach(element => lines.push(`  ? ${element}`));
+  return lines.join('\n');
+};
+
+export const formatReveal = (puzzle: Puzzle, history: Interaction[]): string => {
+  const keyFacts = getKeyFacts(puzzle);
+  const uncovered = getUncoveredFactIndexes(keyFacts.length, history);
+  const lines = ['CASE REVEALED', '', `  ${puzzle.bottom}`];
+  if (keyFacts.length > 0) {
+    lines.push('', `Facts uncovered: ${uncovered.size}/${keyFacts.length}`);
+    keyFacts.forEach((fact, factIdx) => lines.push(`  ${uncovered.has(factIdx) ? '✓' : '✗'} ${fact}`));
+  }
+  return lines.join('\n');
+};
+
+export const formatCaseScore = (score: CaseScore): string => {
+  const penalties = [
+    ...(score.inquiryPenalty ? [`-${formatScore(score.inquiryPenalty)} inquiries`] : []),
+    ...(score.hintPenalty ? [`-${formatScore(score.hintPenalty)} hints`] : []),
+    ...(score.wrongGuessPenalty ? [`-${formatScore(score.wrongGuessPenalty)} wrong solutions`] : []),
+    ...(score.timePenalty ? [`-${formatScore(score.timePenalty)} time`] : [])
+  ];
+  return `Score: ${formatScore(score.total)} (${[`${formatScore(score.base)} for the rank`, ...penalties].join(', ')})`;
+};
+
+export const formatArchive = (entries: HistoryEntry[]): string => {
+  if (entries.length === 0) return 'The archives are empty... only dust remains.';
+  const lines = ['CHRONICLE OF PAST DEEDS', ''];
+  entries.forEach(entry => {
+    const details = [
+      ...(entry.score ? [`${formatScore(entry.score.total)} pts`] : []),
+      `${entry.interactionsCount} inquiries`,
+      `${entry.hintsUsed} hints`,
+      ...(entry.nearMisses ? [`${entry.nearMisses} near misses`] : []),
+      ...(entry.usage ? [formatUsage(entry.usage)] : [])
+    ];
+    lines.push(`${new Date(entry.timestamp).toLocaleDateString()}  ${entry.status.padEnd(11)} ${entry.puzzle.difficulty.padEnd(6)} ${entry.puzzle.title}`);
+    lines.push(`  ${details.join(' | ')}`);
+  });
+  if (entries.some(entry => entry.usage)) {
+    const byDifficulty = summarizeUsageByDifficulty(entries);
+    lines.push('', 'Oracle usage by difficulty:');
+    (['Easy', 'Medium', 'Hard'] as Difficulty[]).forEach(difficulty => {
+      lines.push(`  ${difficulty.padEnd(6)} ${formatUsage(byDifficulty[difficulty])}`);
+    });
+  }
+  return lines.join('\n');
+};
+
+export const formatStats = (entries: HistoryEntry[]): string => {
+  const stats = computeDetectiveStats(entries);
+  if (stats.played === 0) return 'No cases closed yet... the ledger is blank.';
+  const lines = [
+    'LEDGER OF THE DETECTIVE',
+    '',
+    `Cases closed: ${stats.played} | Solve rate: ${formatRate(stats.overall.solveRate)} | Streak: ${stats.currentStreak} (best ${stats.bestStreak})`,
+    '',
+    'Rank     Solved  Surrendered  Rate  Inquiries/solve  Hints/solve'
+  ];
+  (['Easy', 'Medium', 'Hard'] as Difficulty[]).forEach(difficulty => {
+    const record = stats.byDifficulty[difficulty];
+    lines.push(`${DIFFICULTY_RANKS[difficulty].padEnd(8)} ${String(record.solved).padStart(6)}  ${String(record.surrendered).padStart(11)}  ${formatRate(record.solveRate).padStart(4)}  ${formatAverage(record.avgInquiries).padStart(15)}  ${formatAverage(record.avgHints).padStart(11)}`);
+  });
+  lines.push('', 'Week of     Closed  Rate  Inquiries/solve');
+  stats.weeks.forEach(week => {
+    lines.push(`${week.weekStart}  ${String(week.played).padStart(6)}  ${formatRate(week.solveRate).padStart(4)}  ${formatAverage(week.avgInquiries).padStart(15)}`);
+  });
+  const earned = computeAchievements(entries);
+  lines.push('', `Badges: ${earned.length}/${ACHIEVEMENTS.length} | Title: ${grandestTitle(earned)}`);
+  earned.forEach(({ achievement, unlockedAt }) => {
+    lines.push(`  ${achievement.badge} ${achievement.name.padEnd(24)} ${new Date(unlockedAt).toLocaleDateString()}  ${achievement.description}`);
+  });
+  return lines.join('\n');
+};
+
+export const formatUnlockedAchievements = (achievements: Achievement[]): string => {
+  return achievements
+    .map(achievement => `🏆 Badge earned: ${achievement.name} (${achievement.description})${achievement.title ? `\n   New title: ${achievement.title}` : ''}`)
+    .join('\n');
+};
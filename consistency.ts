@@ -0,0 +1,39 @@
+import { Interaction } from "./types";
+import { normalizeText } from "./textMatching";
+
+export type QuestionStatus = 'Yes' | 'No' | 'Irrelevant';
+
+const isRuledQuestion = (interaction: Interaction): boolean => {
+  return interaction.type === 'question' && !interaction.refused && (interaction.status === 'Yes' || interaction.status === 'No' || interaction.status === 'Irrelevant');
+};
+
+// A ruling is overridden once a later answer amends the same question
+export const isRulingOverridden = (history: Interaction[], index: number): boolean => {
+  const normalized = normalizeText(history[index]?.content ?? '');
+  return history
+    .slice(index + 1)
+    .some(later => later.amends !== undefined && normalizeText(later.amends) === normalized);
+};
+
+const getRulingsInForce = (history: Interaction[]): Interaction[] => {
+  return history.filter((interaction, index) => isRuledQuestion(interaction) && !isRulingOverridden(history, index));
+};
+
+// Yes/No/Irrelevant rulings still in force, oldest first, formatted for the judging prompt
+export const formatPriorRulings = (history: Interaction[]): string => {
+  const rulings = getRulingsInForce(history)
+    .map((interaction, index) => `${index + 1}. "${interaction.content}" => ${interaction.status}`);
+  return rulings.length > 0 ? rulings.join('\n') : 'None';
+};
+
+// The latest ruling in force on the same question (ignoring case and punctuation), if one exists
+export const findPriorRuling = (history: Interaction[], question: string): Interaction | undefined => {
+  const normalized = normalizeText(question);
+  return getRulingsInForce(history)
+    .reverse()
+    .find(interaction => normalizeText(interaction.content) === normalized);
+};
+
+export const amendmentNote = (conflictingQuestion: string): string => {
+  return `The Chronicler amends an earlier ruling on "${conflictingQuestion}". Trust this answer over the old one.`;
+};
@@ -0,0 +1,59 @@
+import { HistoryEntry, Interaction } from "./types";
+import { SavedSession } from "./savedGames";
+import { toDayKey } from "./usage";
+import { formatScore } from "./scoring";
+
+// The daily case: one pack puzzle per calendar day, the same for every player, with a single attempt each.
+// Days are the player's local dates, so the case changes at their midnight.
+
+const MAX_SHARED_TURNS = 40; // Longer inquiries are cut short in the shared summary
+
+export const todayKey = (now = Date.now()): string => toDayKey(now);
+
+export const findDailyEntry = (archive: HistoryEntry[], day: string): HistoryEntry | undefined => {
+  return archive.find(entry => entry.daily === day);
+};
+
+// The unfinished attempt at that day's case, if the player left it for later
+export const findDailySlot = (slots: SavedSession[], day: string): SavedSession | undefined => {
+  return slots.find(slot => slot.currentCase.daily === day);
+};
+
+// One square per turn: answers, hints and verdicts show the shape of the inquiry without giving anything away
+const turnSymbol = (interaction: Interaction): string => {
+  if (interaction.type === 'hint') return '💡';
+  if (interaction.refused) return '⬛';
+  switch (interaction.status) {
+    case 'Yes':
+      return '🟩';
+    case 'No':
+      return '🟥';
+    case 'Correct':
+      return '✅';
+    case 'Close':
+      return '🟨';
+    case 'Incorrect':
+      return '❌';
+    default:
+      return '⬜';
+  }
+};
+
+const countOf = (count: number, singular: string, plural: string): string => `${count} ${count === 1 ? singular : plural}`;
+
+// A result to paste into chat: no title, surface or questions, so it spoils nothing for those yet to play
+export const formatDailyShare = (entry: HistoryEntry): string => {
+  const transcript = entry.transcript ?? [];
+  const turns = transcript.slice(0, MAX_SHARED_TURNS).map(turnSymbol).join('');
+  const wrongGuesses = transcript.filter(interaction => interaction.type === 'guess' && interaction.status !== 'Correct').length;
+  return [
+    `Kingdom Secrets · Daily Case ${entry.daily ?? toDayKey(entry.timestamp)}`,
+    `${entry.status === 'Solved' ? '✅ Solved' : '🏳️ Surrendered'} · ${entry.puzzle.difficulty}${entry.score ? ` · ${formatScore(entry.score.total)} pts` : ''}`,
+    [
+      countOf(entry.interactionsCount, 'inquiry', 'inquiries'),
+      countOf(entry.hintsUsed, 'hint', 'hints'),
+      countOf(wrongGuesses, 'wrong guess', 'wrong guesses')
+    ].join(' · '),
+    ...(turns ? [turns + (transcript.length > MAX_SHARED_TURNS ? '…' : '')] : [])
+  ].join('\n');
+};
@@ -0,0 +1,98 @@
+import { Difficulty, HistoryEntry } from "./types";
+import { toDayKey } from "./usage";
+
+// Figures for the statistics screen, worked out from the archive of finished cases
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DifficultyRecord {
+  played: number;
+  solved: number;
+  surrendered: number;
+  solveRate: number | null;       // Share of played cases solved; null before the first case
+  avgInquiries: number | null;    // Per solved case
+  avgHints: number | null;        // Per solved case
+}
+
+export interface WeekRecord {
+  weekStart: string;              // Monday of the week, YYYY-MM-DD in local time
+  played: number;
+  solved: number;
+  solveRate: number | null;
+  avgInquiries: number | null;    // Per solved case
+}
+
+export interface DetectiveStats {
+  played: number;
+  overall: DifficultyRecord;
+  byDifficulty: Record<Difficulty, DifficultyRecord>;
+  currentStreak: number;          // Solved cases in a row, up to the latest one
+  bestStreak: number;
+  weeks: WeekRecord[];            // Oldest first, including weeks without play
+}
+
+const average = (values: number[]): number | null => {
+  return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null;
+};
+
+const summarize = (entries: HistoryEntry[]): DifficultyRecord => {
+  const solved = entries.filter(entry => entry.status === 'Solved');
+  return {
+    played: entries.length,
+    solved: solved.length,
+    surrendered: entries.length - solved.length,
+    solveRate: entries.length > 0 ? solved.length / entries.length : null,
+    avgInquiries: average(solved.map(entry => entry.interactionsCount)),
+    avgHints: average(solved.map(entry => entry.hintsUsed))
+  };
+};
+
+// Monday-based weeks, so a weekly puzzle session lands in one bucket
+export const toWeekKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  date.setHours(12, 0, 0, 0); // Midday keeps daylight saving shifts from changing the day
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return toDayKey(date.getTime());
+};
+
+export const computeDetectiveStats = (entries: HistoryEntry[], weekCount = 8, now = Date.now()): DetectiveStats => {
+  const chronological = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+
+  let bestStreak = 0;
+  let streak = 0;
+  chronological.forEach(entry => {
+    streak = entry.status === 'Solved' ? streak + 1 : 0;
+    bestStreak = Math.max(bestStreak, streak);
+  });
+
+  const byWeek = new Map<string, HistoryEntry[]>();
+  chronological.forEach(entry => {
+    const week = toWeekKey(entry.timestamp);
+    byWeek.set(week, [...(byWeek.get(week) ?? []), entry]);
+  });
+  const weeks = Array.from({ length: weekCount }, (_, weeksAgo) => toWeekKey(now - (weekCount - 1 - weeksAgo) * 7 * DAY_MS))
+    .map(weekStart => {
+      const { played, solved, solveRate, avgInquiries } = summarize(byWeek.get(weekStart) ?? []);
+      return { weekStart, played, solved, solveRate, avgInquiries };
+    });
+
+  return {
+    played: entries.length,
+    overall: summarize(entries),
+    byDifficulty: Object.fromEntries(
+      DIFFICULTIES.map(difficulty => [difficulty, summarize(entries.filter(entry => entry.puzzle.difficulty === difficulty))])
+    ) as Record<Difficulty, DifficultyRecord>,
+    currentStreak: streak,
+    bestStreak,
+    weeks
+  };
+};
+
+export const formatRate = (rate: number | null): string => {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+};
+
+export const formatAverage = (value: number | null): string => {
+  return value === null ? '—' : value.toFixed(1);
+};
@@ -0,0 +1,21 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'vite';
+
+// The dev server hands the project root to the network, so it must refuse the packs and their truths
+test('the dev server does not serve puzzle packs', async () => {
+  process.env['ORACLE_PROVIDER'] ??= 'offline';
+  const server = await createServer({ server: { port: 0, host: '127.0.0.1' }, logLevel: 'silent' });
+  await server.listen();
+  try {
+    const base = server.resolvedUrls!.local[0]!;
+    for (const url of ['packs/classic-medieval.json', 'packs/classic-medieval.json?raw', `@fs${process.cwd()}/packs/classic-medieval.json`]) {
+      const response = await fetch(new URL(url, base));
+      const body = await response.text();
+      assert.equal(response.status, 403, url);
+      assert.ok(!body.includes('"bottom"'), url);
+    }
+  } finally {
+    await server.close();
+  }
+});
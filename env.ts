@@ -0,0 +1,6 @@
+// Reads a server setting from process.env. Server code only: the browser bundle must never import this module, and
+// reads the few settings it needs from import.meta.env by name (see vite-env.d.ts).
+export const readEnv = (name: string): string | undefined => {
+  const value = process.env[name];
+  return value ? value : undefined;
+};
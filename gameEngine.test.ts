@@ -0,0 +1,161 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { GameState, HistoryEntry, PuzzlePack } from './types';
+import { GameEngine, OraclePort, StoragePort, createGameEngine } from './gameEngine';
+import { DEFAULT_PLAYER_SETTINGS, EMPTY_PLAYER_PROFILES, PlayerProfiles, PlayerSettings, SavedSession } from './savedGames';
+import { createGameMaster, GameMasterError } from './server/gameMaster';
+import { offlineOracle } from './offlineOracle';
+
+const PACK: PuzzlePack = {
+  format: 'kingdom-secrets/puzzle-pack',
+  version: 1,
+  id: 'test-pack',
+  name: 'Test Pack',
+  puzzles: [{
+    title: 'The Silent Sentry',
+    surface: 'The sentry never moved, not even when the gate was stormed.',
+    bottom: 'The sentry was a stone statue.',
+    difficulty: 'Easy',
+    tags: ['statue'],
+    keyFacts: ['The sentry is a statue.']
+  }]
+};
+
+// Saved games kept in memory, shared between engines to stand in for a reload
+const createMemoryStorage = (): StoragePort => {
+  let archive: HistoryEntry[] = [];
+  let slots: SavedSession[] = [];
+  let settings: PlayerSettings = DEFAULT_PLAYER_SETTINGS;
+  let profiles: PlayerProfiles = EMPTY_PLAYER_PROFILES;
+  let dailyAttempts: string[] = [];
+  return {
+    open: async () => {},
+    loadArchive: () => archive,
+    saveArchive: (entries) => {
+      archive = entries;
+      return true;
+    },
+    listSlots: () => slots,
+    saveSlot: (session) => {
+      slots = [...slots.filter(slot => slot.slotId !== session.slotId), session];
+      return true;
+    },
+    deleteSlot: (slotId) => {
+      slots = slots.filter(slot => slot.slotId !== slotId);
+    },
+    loadSettings: () => settings,
+    saveSettings: (next) => {
+      settings = next;
+      return true;
+    },
+    loadProfiles: () => profiles,
+    saveProfiles: (next) => {
+      profiles = next;
+      return true;
+    },
+    loadDailyAttempts: () => dailyAttempts,
+    saveDailyAttempts: (days) => {
+      dailyAttempts = days;
+      return true;
+    }
+  };
+};
+
+// An in-process game master over the offline oracle, counting the daily cases it opens and the questions it judges
+const createTestOracle = () => {
+  const gameMaster = createGameMaster({ oracle: offlineOracle, packs: [PACK] });
+  const opened = { daily: 0, questions: 0 };
+  const oracle: OraclePort = {
+    startCase: (difficulty, played, packOnly, options) => gameMaster.startCase({ difficulty, played, packOnly }, options?.signal),
+    startDailyCase: async (day) => {
+      opened.daily++;
+      return gameMaster.startDailyCase(day);
+    },
+    fetchCase: async (sessionId) => gameMaster.getCase(sessionId),
+    askQuestion: async (sessionId, question, options) => {
+      opened.questions++;
+      return gameMaster.ask(sessionId, question, options?.signal);
+    },
+    submitGuess: (sessionId, guess, options) => gameMaster.guess(sessionId, guess, options?.signal),
+    requestHint: (sessionId, options) => gameMaster.hint(sessionId, options?.signal),
+    surrenderCase: async (sessionId) => gameMaster.surrender(sessionId),
+    describeFailure: (error, fallback) => ({
+      message: error instanceof Error ? error.message : fallback,
+      retryable: !(error instanceof GameMasterError)
+    })
+  };
+  return { oracle, opened };
+};
+
+const startEngine = async (oracle: OraclePort, storage: StoragePort): Promise<GameEngine> => {
+  const engine = createGameEngine({ oracle, storage, audio: { play: () => {} } }, { revealDelayMs: 0 });
+  await engine.dispatch({ type: 'LOAD' });
+  return engine;
+};
+
+test('an abandoned daily case cannot be tried again the same day', async () => {
+  const { oracle, opened } = createTestOracle();
+  const engine = await startEngine(oracle, createMemoryStorage());
+
+  await engine.dispatch({ type: 'START_DAILY' });
+  const { currentCase } = engine.getSnapshot();
+  assert.ok(currentCase?.daily);
+  await engine.dispatch({ type: 'NAVIGATE', to: GameState.MENU });
+  await engine.dispatch({ type: 'DELETE_SLOT', slotId: currentCase.sessionId });
+  assert.equal(engine.getSnapshot().slots.length, 0);
+
+  await engine.dispatch({ type: 'START_DAILY' });
+  const snapshot = engine.getSnapshot();
+  assert.equal(snapshot.gameState, GameState.MENU);
+  assert.equal(snapshot.error?.retryable, false);
+  assert.equal(opened.daily, 1);
+  engine.dispose();
+});
+
+test('the daily attempt is kept across a reload', async () => {
+  const { oracle, opened } = createTestOracle();
+  const storage = createMemoryStorage();
+  const first = await startEngine(oracle, storage);
+  await first.dispatch({ type: 'START_DAILY' });
+  const slotId = first.getSnapshot().currentCase!.sessionId;
+  await first.dispatch({ type: 'NAVIGATE', to: GameState.MENU });
+  await first.dispatch({ type: 'DELETE_SLOT', slotId });
+  first.dispose();
+
+  const second = await startEngine(oracle, storage);
+  await second.dispatch({ type: 'START_DAILY' });
+  assert.equal(second.getSnapshot().gameState, GameState.MENU);
+  assert.equal(opened.daily, 1);
+  second.dispose();
+});
+
+test('an unfinished daily case is continued rather than opened again', async () => {
+  const { oracle, opened } = createTestOracle();
+  const engine = await startEngine(oracle, createMemoryStorage());
+  await engine.dispatch({ type: 'START_DAILY' });
+  const slotId = engine.getSnapshot().currentCase!.sessionId;
+  await engine.dispatch({ type: 'NAVIGATE', to: GameState.MENU });
+
+  await engine.dispatch({ type: 'START_DAILY' });
+  const snapshot = engine.getSnapshot();
+  assert.equal(snapshot.gameState, GameState.PLAYING);
+  assert.equal(snapshot.currentCase?.sessionId, slotId);
+  assert.equal(opened.daily, 1);
+  engine.dispose();
+});
+
+test('a question already ruled on is answered from the record, not turned away as a repeat', async () => {
+  const { oracle, opened } = createTestOracle();
+  const engine = await startEngine(oracle, createMemoryStorage());
+  await engine.dispatch({ type: 'START_DAILY' });
+
+  await engine.dispatch({ type: 'ASK', text: 'Is the sentry a statue?' });
+  await engine.dispatch({ type: 'ASK', text: 'is the sentry a STATUE' });
+  const { history, inquiryNotice } = engine.getSnapshot();
+  assert.equal(inquiryNotice, null);
+  assert.equal(history.length, 2);
+  assert.equal(history[1]!.cached, true);
+  assert.equal(history[1]!.status, history[0]!.status);
+  assert.equal(opened.questions, 1);
+  engine.dispose();
+});
@@ -0,0 +1,759 @@
+import { CaseFile, CaseScore, CaseState, Difficulty, GameState, HistoryEntry, Interaction, PlayedPuzzle, PlayerProfile, Puzzle, TokenUsage } from "./types";
+import { InquiryNotice, classifyInquiry } from "./inquiryClassifier";
+import { VerdictCache, lookupVerdict, rememberVerdict } from "./verdictCache";
+import { emptyUsage } from "./usage";
+import { DEFAULT_PLAYER_SETTINGS, EMPTY_PLAYER_PROFILES, MAX_DAILY_ATTEMPTS, PlayerProfiles, PlayerSettings, SavedSession } from "./savedGames";
+import { mergeArchive } from "./archiveTransfer";
+import { activeElapsedMs, scoreCase } from "./scoring";
+import { findDailyEntry, findDailySlot, todayKey } from "./dailyCase";
+import { Achievement, entriesOfPlayer, findNewAchievements } from "./achievements";
+
+// The rules of play without any UI: a state machine over GameState driven by events.
+// Side effects go through three ports (oracle, storage, audio), so any front-end can sit on top.
+
+export type SoundEffect = 'yes' | 'no' | 'correct' | 'click' | 'wood' | 'tick' | 'hint' | 'solve_fail' | 'fanfare';
+
+export interface OracleRequestOptions {
+  signal?: AbortSignal; // Aborted when the player moves on
+}
+
+export interface FailureNotice {
+  message: string;
+  retryable: boolean; // False when sending the same request again cannot help
+}
+
+// Where cases are opened and judged: the game master over HTTP in the browser, or in-process
+export interface OraclePort {
+  startCase: (difficulty: Difficulty, played: PlayedPuzzle[], packOnly: boolean, options?: OracleRequestOptions) => Promise<CaseState>;
+  startDailyCase: (day: string, options?: OracleRequestOptions) => Promise<CaseState>;
+  fetchCase: (sessionId: string, options?: OracleRequestOptions) => Promise<CaseState>;
+  askQuestion: (sessionId: string, question: string, options?: OracleRequestOptions) => Promise<{ interaction: Interaction; usage: TokenUsage }>;
+  submitGuess: (sessionId: string, guess: string, options?: OracleRequestOptions) => Promise<{ interaction: Interaction; usage: TokenUsage; reveal?: Puzzle }>;
+  requestHint: (sessionId: string, options?: OracleRequestOptions) => Promise<{ interaction: Interaction; usage: TokenUsage; hintsRemaining: number }>;
+  surrenderCase: (sessionId: string, options?: OracleRequestOptions) => Promise<{ reveal: Puzzle }>;
+  describeFailure: (error: unknown, fallback: string) => FailureNotice;
+}
+
+// The archive of finished cases, the save slots of unfinished ones, the player's settings and the detective profiles,
+// kept between visits
+export interface StoragePort {
+  open: () => Promise<void>; // Reads (and migrates) what was kept; the other calls work on what it read
+  loadArchive: () => HistoryEntry[];
+  saveArchive: (entries: HistoryEntry[]) => boolean;
+  listSlots: () => SavedSession[];
+  saveSlot: (session: SavedSession) => boolean; // Replaces the slot with the same id
+  deleteSlot: (slotId: string) => void;
+  loadSettings: () => PlayerSettings;
+  saveSettings: (settings: PlayerSettings) => boolean;
+  loadProfiles: () => PlayerProfiles;
+  saveProfiles: (profiles: PlayerProfiles) => boolean;
+  loadDailyAttempts: () => string[]; // Days whose daily case was opened, kept so an abandoned one cannot be tried again
+  saveDailyAttempts: (days: string[]) => boolean;
+}
+
+export interface AudioPort {
+  play: (effect: SoundEffect) => void;
+}
+
+export interface GameEnginePorts {
+  oracle: OraclePort;
+  storage: StoragePort;
+  audio: AudioPort;
+}
+
+export interface GameEngineOptions {
+  revealDelayMs?: number; // Pause between a correct guess and the reveal screen
+}
+
+export type LastAction =
+  | { type: 'question' | 'guess'; input: string }
+  | { type: 'hint' }
+  | { type: 'start'; difficulty: Difficulty; packOnly: boolean }
+  | { type: 'daily'; day: string }
+  | { type: 'resume'; slotId: string };
+
+export interface GameSnapshot {
+  gameState: GameState;
+  currentCase: CaseFile | null;
+  slotName: string; // The name the open case is saved under
+  revealedPuzzle: Puzzle | null; // Only set once the case is solved or surrendered
+  lastScore: CaseScore | null;   // The score of the case just archived
+  unlockedAchievements: Achievement[]; // Badges that case earned its detective
+  history: Interaction[];
+  draft: string;
+  hintsRemaining: number;
+  hintIndex: number;
+  verdictCache: VerdictCache;
+  caseUsage: TokenUsage;
+  inquiryNotice: InquiryNotice | null;
+  isLoading: boolean;
+  error: FailureNotice | null;
+  lastAction: LastAction | null;
+  archive: HistoryEntry[];
+  slots: SavedSession[]; // Unfinished cases, most recently played first; refreshed on the menu
+  settings: PlayerSettings;
+  profiles: PlayerProfile[];
+  activeProfileId: string | null;
+  dailyAttempts: string[]; // Days whose daily case has been opened, finished or not
+}
+
+export type GameEvent =
+  | { type: 'LOAD' } // Reads the archive, the settings and the save slots
+  | { type: 'NAVIGATE'; to: GameState }
+  | { type: 'START_CASE'; difficulty: Difficulty; packOnly: boolean }
+  | { type: 'START_DAILY' } // Today's daily case; continues today's attempt if it was left unfinished
+  | { type: 'RESUME_CASE'; slotId: string }
+  | { type: 'RENAME_SLOT'; slotId: string; name: string }
+  | { type: 'DELETE_SLOT'; slotId: string } // Abandons the case without revealing it
+  | { type: 'UPDATE_SETTINGS'; settings: Partial<PlayerSettings> }
+  | { type: 'IMPORT_ARCHIVE'; entries: HistoryEntry[] } // Validated entries; ids already archived are skipped
+  | { type: 'CREATE_PROFILE'; name: string } // Creates the profile (or finds one of that name) and plays as it
+  | { type: 'SELECT_PROFILE'; profileId: string | null }
+  | { type: 'EDIT_DRAFT'; text: string }
+  | { type: 'ASK'; text: string; force?: boolean } // force skips the local inquiry check
+  | { type: 'SOLVE'; text: string }
+  | { type: 'REQUEST_HINT' }
+  | { type: 'SURRENDER' }
+  | { type: 'RETRY' }
+  | { type: 'DISMISS_ERROR' };
+
+export interface GameEngine {
+  getSnapshot: () => GameSnapshot;
+  subscribe: (listener: () => void) => () => void;
+  canDispatch: (event: GameEvent) => boolean;
+  dispatch: (event: GameEvent) => Promise<void>;
+  dispose: () => void; // Abandons pending requests and timers
+}
+
+// Every screen change the engine may make
+export const GAME_TRANSITIONS: Record<GameState, GameState[]> = {
+  [GameState.MENU]: [GameState.RULES, GameState.HISTORY, GameState.STATS, GameState.SETTINGS, GameState.LOADING, GameState.PLAYING],
+  [GameState.RULES]: [GameState.MENU],
+  [GameState.HISTORY]: [GameState.MENU],
+  [GameState.STATS]: [GameState.MENU],
+  [GameState.SETTINGS]: [GameState.MENU],
+  [GameState.LOADING]: [GameState.PLAYING, GameState.MENU],
+  [GameState.PLAYING]: [GameState.FINISHED, GameState.MENU],
+  [GameState.FINISHED]: [GameState.MENU, GameState.LOADING]
+};
+
+// The events each screen accepts; anything else is ignored
+export const GAME_EVENTS: Record<GameState, GameEvent['type'][]> = {
+  [GameState.MENU]: [
+    'LOAD', 'NAVIGATE', 'START_CASE', 'START_DAILY', 'RESUME_CASE', 'RENAME_SLOT', 'DELETE_SLOT', 'UPDATE_SETTINGS', 'CREATE_PROFILE', 'SELECT_PROFILE',
+    'RETRY', 'DISMISS_ERROR'
+  ],
+  [GameState.RULES]: ['NAVIGATE'],
+  [GameState.HISTORY]: ['NAVIGATE', 'IMPORT_ARCHIVE'],
+  [GameState.STATS]: ['NAVIGATE'],
+  [GameState.SETTINGS]: ['NAVIGATE', 'UPDATE_SETTINGS'],
+  [GameState.LOADING]: ['NAVIGATE'],
+  [GameState.PLAYING]: ['NAVIGATE', 'EDIT_DRAFT', 'ASK', 'SOLVE', 'REQUEST_HINT', 'SURRENDER', 'RETRY', 'DISMISS_ERROR'],
+  [GameState.FINISHED]: ['NAVIGATE', 'START_CASE', 'DISMISS_ERROR']
+};
+
+// Screens a player can walk to; the rest are reached by playing
+const NAVIGABLE_STATES: GameState[] = [GameState.MENU, GameState.RULES, GameState.HISTORY, GameState.STATS, GameState.SETTINGS];
+
+export const MAX_SAVE_SLOTS = 6;
+export const MAX_SLOT_NAME_LENGTH = 60;
+export const MAX_PROFILE_NAME_LENGTH = 30;
+const MAX_PLAYED_PUZZLES = 200; // The most recent archived cases sent along so the game master avoids repeats
+const REVEAL_DELAY_MS = 1200;
+const HOUR_MS = 60 * 60 * 1000;
+
+const createInitialSnapshot = (): GameSnapshot => ({
+  gameState: GameState.MENU,
+  currentCase: null,
+  slotName: '',
+  revealedPuzzle: null,
+  lastScore: null,
+  unlockedAchievements: [],
+  history: [],
+  draft: '',
+  hintsRemaining: 0,
+  hintIndex: 0,
+  verdictCache: {},
+  caseUsage: emptyUsage(),
+  inquiryNotice: null,
+  isLoading: false,
+  error: null,
+  lastAction: null,
+  archive: [],
+  slots: [],
+  settings: DEFAULT_PLAYER_SETTINGS,
+  profiles: EMPTY_PLAYER_PROFILES.profiles,
+  activeProfileId: EMPTY_PLAYER_PROFILES.activeProfileId,
+  dailyAttempts: []
+});
+
+export const createGameEngine = (ports: GameEnginePorts, options: GameEngineOptions = {}): GameEngine => {
+  const { oracle, storage, audio } = ports;
+  const revealDelayMs = options.revealDelayMs ?? REVEAL_DELAY_MS;
+
+  let snapshot = createInitialSnapshot();
+  const listeners = new Set<() => void>();
+  let activeRequest: AbortController | null = null; // The one request whose answer we still want
+  let revealTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // The open case is saved to its slot after every change, so it can be continued later
+  const persistSession = () => {
+    const { gameState, currentCase, revealedPuzzle } = snapshot;
+    if (gameState !== GameState.PLAYING || !currentCase || revealedPuzzle) return;
+    const saved = storage.saveSlot({
+      slotId: currentCase.sessionId,
+      name: snapshot.slotName || currentCase.title,
+      currentCase,
+      history: snapshot.history,
+      input: snapshot.draft,
+      hintsRemaining: snapshot.hintsRemaining,
+      hintIndex: snapshot.hintIndex,
+      verdictCache: snapshot.verdictCache,
+      caseUsage: snapshot.caseUsage,
+      timestamp: Date.now()
+    });
+    if (!saved) {
+      console.warn('Failed to save game session due to storage limitations');
+    }
+  };
+
+  // Slots left untouched for longer than the player's expiry setting are dropped here
+  const listSlots = (settings: PlayerSettings): SavedSession[] => {
+    const now = Date.now();
+    const { slotExpiryHours } = settings;
+    return storage.listSlots()
+      .filter(slot => {
+        if (slotExpiryHours === null || now - slot.timestamp < slotExpiryHours * HOUR_MS) return true;
+        console.log('🗑️ Save slot expired:', slot.name);
+        storage.deleteSlot(slot.slotId);
+        return false;
+      })
+      .sort((a, b) => b.timestamp - a.timestamp);
+  };
+
+  const update = (changes: Partial<GameSnapshot>) => {
+    snapshot = { ...snapshot, ...changes };
+    persistSession();
+    listeners.forEach(listener => listener());
+  };
+
+  const moveTo = (to: GameState, changes: Partial<GameSnapshot> = {}) => {
+    if (!GAME_TRANSITIONS[snapshot.gameState].includes(to)) {
+      throw new Error(`Illegal game transition ${snapshot.gameState} → ${to}`);
+    }
+    // The menu lists the unfinished cases, including the one just left
+    update({ ...changes, ...(to === GameState.MENU ? { slots: listSlots(snapshot.settings) } : {}), gameState: to });
+  };
+
+  // Starting a request abandons whatever was still in flight, so a late answer never lands in the wrong case
+  const beginRequest = (): AbortController => {
+    activeRequest?.abort();
+    const controller = new AbortController();
+    activeRequest = controller;
+    update({ isLoading: true, error: null });
+    return controller;
+  };
+
+  const finishRequest = (controller: AbortController) => {
+    if (activeRequest !== controller) return; // A newer request owns the loading state now
+    activeRequest = null;
+    update({ isLoading: false });
+  };
+
+  const cancelActiveRequest = () => {
+    if (!activeRequest) return;
+    console.log('🛑 Cancelling in-flight request');
+    activeRequest.abort();
+    activeRequest = null;
+    update({ isLoading: false });
+  };
+
+  const showFailure = (failure: unknown, fallback: string) => {
+    update({ error: oracle.describeFailure(failure, fallback) });
+  };
+
+  const playVerdict = (interaction: Interaction) => {
+    if (interaction.status === 'Yes') audio.play('yes');
+    else if (interaction.status === 'No') audio.play('no');
+    else audio.play('tick');
+  };
+
+  const archiveCase = (status: 'Solved' | 'Surrendered', puzzle: Puzzle, finalHistory: Interaction[], usage: TokenUsage) => {
+    const finishedAt = Date.now();
+    const openedAt = snapshot.currentCase?.openedAt;
+    const score = scoreCase(puzzle.difficulty, status, finalHistory, activeElapsedMs(openedAt ?? finishedAt, finalHistory, finishedAt));
+    const player = snapshot.profiles.find(profile => profile.id === snapshot.activeProfileId);
+    const entry: HistoryEntry = {
+      id: Date.now().toString(),
+      timestamp: Date.now(),
+      puzzle,
+      interactionsCount: finalHistory.filter(i => i.type === 'question' || i.type === 'guess').length,
+      hintsUsed: finalHistory.filter(i => i.type === 'hint').length,
+      nearMisses: finalHistory.filter(i => i.type === 'guess' && i.status === 'Close').length,
+      status,
+      usage,
+      transcript: finalHistory,
+      ...(openedAt !== undefined ? { startedAt: openedAt } : {}),
+      score,
+      ...(player ? { playerId: player.id, playerName: player.name } : {}),
+      ...(snapshot.currentCase?.daily ? { daily: snapshot.currentCase.daily } : {})
+    };
+    const archive = [entry, ...snapshot.archive];
+    console.log('🏅 Case scored:', score.total);
+    const playerId = player?.id ?? null;
+    const unlockedAchievements = findNewAchievements(entriesOfPlayer(snapshot.archive, playerId), entriesOfPlayer(archive, playerId));
+    if (unlockedAchievements.length > 0) console.log('🏆 Badges earned:', unlockedAchievements.map(achievement => achievement.name).join(', '));
+    update({ archive, lastScore: score, unlockedAchievements });
+    storage.saveArchive(archive);
+    // A finished case frees its slot
+    if (snapshot.currentCase) storage.deleteSlot(snapshot.currentCase.sessionId);
+  };
+
+  // Badges are announced once the reveal screen is up
+  const playFanfare = () => {
+    if (snapshot.unlockedAchievements.length > 0) audio.play('fanfare');
+  };
+
+  // The game master is the source of truth for an open case; drop the slot if it no longer knows the case
+  const resyncCase = async (sessionId: string, localHistory: Interaction[]) => {
+    const stillOpen = () => snapshot.currentCase?.sessionId === sessionId;
+    const leaveCase = (notice: FailureNotice) => {
+      if (!stillOpen()) return;
+      if (snapshot.gameState === GameState.PLAYING) moveTo(GameState.MENU);
+      update({ currentCase: null, history: [], error: notice });
+    };
+    const forgetCase = () => {
+      storage.deleteSlot(sessionId);
+      leaveCase({ message: 'The Chronicler no longer remembers this case. Its save slot has been cleared.', retryable: false });
+    };
+    try {
+      const caseState = await oracle.fetchCase(sessionId);
+      if (caseState.finished) {
+        forgetCase();
+        return;
+      }
+      if (!stillOpen()) return;
+      // Cached answers never reach the game master; keep the local log when it agrees with the server on everything else
+      const localTurns = localHistory.filter(interaction => !interaction.cached);
+      update({
+        currentCase: caseState.caseFile,
+        history: localTurns.length === caseState.history.length ? localHistory : caseState.history,
+        hintsRemaining: caseState.hintsRemaining,
+        hintIndex: caseState.hintIndex,
+        caseUsage: caseState.usage
+      });
+    } catch (resyncError) {
+      console.warn('Failed to resume case from the game master:', resyncError);
+      const notice = oracle.describeFailure(resyncError, 'The Chronicler could not reopen this case. Please try again.');
+      // An unreachable game master may still hold the case, so its slot is kept for another try
+      if (notice.retryable) leaveCase(notice);
+      else forgetCase();
+    }
+  };
+
+  const load = async () => {
+    update({ isLoading: true });
+    try {
+      await storage.open();
+    } catch (error) {
+      console.error('Failed to open saved games:', error);
+    }
+    const settings = storage.loadSettings();
+    const { profiles, activeProfileId } = storage.loadProfiles();
+    update({
+      archive: storage.loadArchive(),
+      settings,
+      slots: listSlots(settings),
+      profiles,
+      activeProfileId,
+      dailyAttempts: storage.loadDailyAttempts(),
+      isLoading: false
+    });
+  };
+
+  const resumeCase = async (slotId: string) => {
+    const slot = snapshot.slots.find(candidate => candidate.slotId === slotId);
+    if (!slot) return;
+    console.log('📜 Resuming case:', slot.name);
+    audio.play('click');
+    moveTo(GameState.PLAYING, {
+      lastAction: { type: 'resume', slotId },
+      currentCase: slot.currentCase,
+      slotName: slot.name,
+      revealedPuzzle: null,
+      lastScore: null,
+      unlockedAchievements: [],
+      history: slot.history,
+      draft: slot.input,
+      hintsRemaining: slot.hintsRemaining,
+      hintIndex: slot.hintIndex,
+      verdictCache: slot.verdictCache,
+      caseUsage: slot.caseUsage,
+      inquiryNotice: null,
+      error: null
+    });
+    audio.play('wood');
+    await resyncCase(slotId, slot.history);
+  };
+
+  const renameSlot = (slotId: string, name: string) => {
+    const slot = snapshot.slots.find(candidate => candidate.slotId === slotId);
+    if (!slot) return;
+    const trimmed = name.trim().slice(0, MAX_SLOT_NAME_LENGTH) || slot.currentCase.title;
+    storage.saveSlot({ ...slot, name: trimmed });
+    update({
+      slots: snapshot.slots.map(candidate => candidate.slotId === slotId ? { ...candidate, name: trimmed } : candidate),
+      ...(snapshot.currentCase?.sessionId === slotId ? { slotName: trimmed } : {})
+    });
+  };
+
+  const deleteSlot = (slotId: string) => {
+    audio.play('click');
+    storage.deleteSlot(slotId);
+    update({
+      slots: snapshot.slots.filter(slot => slot.slotId !== slotId),
+      ...(snapshot.currentCase?.sessionId === slotId ? { currentCase: null, history: [] } : {})
+    });
+  };
+
+  const importArchive = (entries: HistoryEntry[]) => {
+    const { archive, added } = mergeArchive(snapshot.archive, entries);
+    console.log('📥 Imported archive entries:', added);
+    if (added === 0) return;
+    update({ archive });
+    storage.saveArchive(archive);
+  };
+
+  const saveProfiles = (profiles: PlayerProfile[], activeProfileId: string | null) => {
+    if (!storage.saveProfiles({ profiles, activeProfileId })) {
+      console.warn('Failed to save profiles due to storage limitations');
+    }
+    update({ profiles, activeProfileId });
+  };
+
+  const createProfile = (name: string) => {
+    const trimmed = name.trim().slice(0, MAX_PROFILE_NAME_LENGTH);
+    if (!trimmed) return;
+    const existing = snapshot.profiles.find(profile => profile.name.toLowerCase() === trimmed.toLowerCase());
+    if (existing) {
+      saveProfiles(snapshot.profiles, existing.id);
+      return;
+    }
+    const profile: PlayerProfile = { id: `player-${Date.now().toString(36)}`, name: trimmed, createdAt: Date.now() };
+    console.log('🕵️ New detective:', profile.name);
+    saveProfiles([...snapshot.profiles, profile], profile.id);
+  };
+
+  const selectProfile = (profileId: string | null) => {
+    if (profileId !== null && !snapshot.profiles.some(profile => profile.id === profileId)) return;
+    audio.play('click');
+    saveProfiles(snapshot.profiles, profileId);
+  };
+
+  const updateSettings = (changes: Partial<PlayerSettings>) => {
+    const settings = { ...snapshot.settings, ...changes };
+    if (!storage.saveSettings(settings)) {
+      console.warn('Failed to save settings due to storage limitations');
+    }
+    update({ settings, slots: listSlots(settings) });
+  };
+
+  const navigate = (to: GameState) => {
+    audio.play('click');
+    // Leaving a screen abandons its pending request
+    cancelActiveRequest();
+    if (to === GameState.HISTORY || to === GameState.STATS || to === GameState.RULES) {
+      audio.play('wood');
+    }
+    moveTo(to);
+  };
+
+  // Opens a new case in a free slot; open asks the game master for it
+  const openCase = async (action: LastAction, open: (signal: AbortSignal) => Promise<CaseState>) => {
+    audio.play('click');
+    // Every unfinished case keeps its slot, so a new one needs a free slot rather than overwriting one
+    if (listSlots(snapshot.settings).length >= MAX_SAVE_SLOTS) {
+      if (snapshot.gameState !== GameState.MENU) moveTo(GameState.MENU);
+      update({
+        error: { message: `All ${MAX_SAVE_SLOTS} save slots hold unfinished cases. Continue or abandon one before opening another.`, retryable: false }
+      });
+      return;
+    }
+    const controller = beginRequest();
+    moveTo(GameState.LOADING, {
+      lastAction: action,
+      currentCase: null,
+      slotName: '',
+      lastScore: null,
+      unlockedAchievements: [],
+      history: [],
+      draft: '',
+      hintIndex: 0,
+      revealedPuzzle: null,
+      inquiryNotice: null,
+      verdictCache: {},
+      caseUsage: emptyUsage()
+    });
+    try {
+      const caseState = await open(controller.signal);
+      if (controller.signal.aborted) return;
+      if (caseState.caseFile.daily) recordDailyAttempt(caseState.caseFile.daily);
+      console.log('✅ Case opened:', { title: caseState.caseFile.title, difficulty: caseState.caseFile.difficulty });
+      moveTo(GameState.PLAYING, {
+        currentCase: caseState.caseFile,
+        hintsRemaining: caseState.hintsRemaining,
+        caseUsage: caseState.usage
+      });
+      audio.play('wood');
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('❌ Failed to generate puzzle:', error);
+      showFailure(error, 'Failed to generate puzzle. Please try again.');
+      moveTo(GameState.MENU);
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  const startCase = async (difficulty: Difficulty, packOnly: boolean) => {
+    console.log('🚀 Starting case with difficulty:', difficulty);
+    await openCase({ type: 'start', difficulty, packOnly }, signal => {
+      // The game master fingerprints the archive and turns away puzzles too close to ones already played
+      const played = snapshot.archive.slice(0, MAX_PLAYED_PUZZLES).map(entry => ({
+        title: entry.puzzle.title,
+        surface: entry.puzzle.surface,
+        bottom: entry.puzzle.bottom
+      }));
+      console.log('🔍 Opening case with played puzzle count:', played.length);
+      return oracle.startCase(difficulty, played, packOnly, { signal });
+    });
+  };
+
+  // The attempt counts once the case is open, so abandoning it (or losing its slot) does not allow another try
+  const recordDailyAttempt = (day: string) => {
+    const dailyAttempts = [...snapshot.dailyAttempts.filter(attempt => attempt !== day), day].slice(-MAX_DAILY_ATTEMPTS);
+    if (!storage.saveDailyAttempts(dailyAttempts)) {
+      console.warn('Failed to save daily case attempts due to storage limitations');
+    }
+    update({ dailyAttempts });
+  };
+
+  // One attempt per day: a finished or abandoned daily case stays closed, an unfinished one is continued
+  const startDaily = async (day: string) => {
+    if (findDailyEntry(snapshot.archive, day)) {
+      update({ error: { message: `You have already closed the daily case for ${day}. A new one opens tomorrow.`, retryable: false } });
+      return;
+    }
+    const slot = findDailySlot(listSlots(snapshot.settings), day);
+    if (slot) return resumeCase(slot.slotId);
+    if (snapshot.dailyAttempts.includes(day)) {
+      update({ error: { message: `You have already opened the daily case for ${day} and left it. A new one opens tomorrow.`, retryable: false } });
+      return;
+    }
+    console.log('📅 Starting the daily case for', day);
+    await openCase({ type: 'daily', day }, signal => oracle.startDailyCase(day, { signal }));
+  };
+
+  const submit = async (text: string, isGuess: boolean, force: boolean) => {
+    audio.play('click');
+    const { currentCase } = snapshot;
+    if (!text.trim() || !currentCase || snapshot.revealedPuzzle || activeRequest) return;
+    update({ inquiryNotice: null });
+    // A question already ruled on in this case gets the very same verdict, marked as from the record, with no request at all
+    const cachedVerdict = isGuess ? null : lookupVerdict(snapshot.verdictCache, text);
+    if (cachedVerdict) {
+      update({ draft: '', error: null, history: [...snapshot.history, { ...cachedVerdict, timestamp: Date.now() }] });
+      playVerdict(cachedVerdict);
+      return;
+    }
+    // Open-ended questions, repeats the cache cannot answer and solutions typed into ASK are answered here without a model call
+    if (!isGuess && !force) {
+      const notice = classifyInquiry(text, snapshot.history);
+      if (notice) {
+        update({ inquiryNotice: notice });
+        audio.play('tick');
+        return;
+      }
+    }
+
+    const controller = beginRequest();
+    update({ draft: '', lastAction: { type: isGuess ? 'guess' : 'question', input: text } });
+    try {
+      const { interaction, usage, reveal }: { interaction: Interaction; usage: TokenUsage; reveal?: Puzzle } = isGuess
+        ? await oracle.submitGuess(currentCase.sessionId, text, { signal: controller.signal })
+        : await oracle.askQuestion(currentCase.sessionId, text, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      const history = [...snapshot.history, interaction];
+      update({ history, caseUsage: usage });
+
+      if (!isGuess) {
+        update({ verdictCache: rememberVerdict(snapshot.verdictCache, interaction) });
+        playVerdict(interaction);
+      } else if (interaction.status === 'Correct' && reveal) {
+        audio.play('correct');
+        update({ revealedPuzzle: reveal });
+        archiveCase('Solved', reveal, history, usage);
+        revealTimer = setTimeout(() => {
+          revealTimer = null;
+          if (snapshot.gameState !== GameState.PLAYING) return;
+          moveTo(GameState.FINISHED);
+          audio.play('wood');
+          playFanfare();
+        }, revealDelayMs);
+      } else if (interaction.status === 'Close') {
+        audio.play('hint');
+      } else {
+        audio.play('solve_fail');
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Failed to process interaction:', error);
+      showFailure(error, 'Failed to process your input. Please try again.');
+      // Restore the input so user doesn't lose their text
+      update({ draft: text });
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  const requestHint = async () => {
+    const { currentCase } = snapshot;
+    if (!currentCase || snapshot.revealedPuzzle || snapshot.hintsRemaining <= 0 || activeRequest) return;
+    const controller = beginRequest();
+    update({ lastAction: { type: 'hint' } });
+    audio.play('hint');
+    try {
+      // The game master owns the hint budget and only consumes a hint once it has been written
+      const { interaction, usage, hintsRemaining } = await oracle.requestHint(currentCase.sessionId, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      update({
+        history: [...snapshot.history, interaction],
+        hintIndex: snapshot.hintIndex + 1,
+        hintsRemaining,
+        caseUsage: usage
+      });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Failed to generate hint:', error);
+      showFailure(error, 'Failed to generate hint. Please try again.');
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  const surrender = async () => {
+    audio.play('click');
+    const { currentCase } = snapshot;
+    if (!currentCase || snapshot.revealedPuzzle) return;
+    // Surrendering withdraws a pending question, guess or hint first
+    const controller = beginRequest();
+    try {
+      const { reveal } = await oracle.surrenderCase(currentCase.sessionId, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      update({ revealedPuzzle: reveal });
+      archiveCase('Surrendered', reveal, snapshot.history, snapshot.caseUsage);
+      moveTo(GameState.FINISHED);
+      audio.play('wood');
+      playFanfare();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Failed to surrender case:', error);
+      showFailure(error, 'The Chronicler did not hear your surrender. Please try again.');
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  const retry = async () => {
+    const { lastAction } = snapshot;
+    if (!lastAction) return;
+    update({ error: null });
+    switch (lastAction.type) {
+      case 'question':
+        return submit(lastAction.input, false, true);
+      case 'guess':
+        return submit(lastAction.input, true, true);
+      case 'hint':
+        return requestHint();
+      case 'start':
+        return startCase(lastAction.difficulty, lastAction.packOnly);
+      case 'daily':
+        return startDaily(lastAction.day);
+      case 'resume':
+        return resumeCase(lastAction.slotId);
+    }
+  };
+
+  const canDispatch = (event: GameEvent): boolean => {
+    if (!GAME_EVENTS[snapshot.gameState].includes(event.type)) return false;
+    if (event.type === 'NAVIGATE') {
+      return NAVIGABLE_STATES.includes(event.to) && GAME_TRANSITIONS[snapshot.gameState].includes(event.to);
+    }
+    return true;
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    canDispatch,
+
+    dispatch: async (event) => {
+      if (!canDispatch(event)) {
+        console.warn(`⚠️ Ignored ${event.type} on the ${snapshot.gameState} screen`);
+        return;
+      }
+      switch (event.type) {
+        case 'LOAD':
+          return load();
+        case 'NAVIGATE':
+          return navigate(event.to);
+        case 'START_CASE':
+          return startCase(event.difficulty, event.packOnly);
+        case 'START_DAILY':
+          return startDaily(todayKey());
+        case 'RESUME_CASE':
+          return resumeCase(event.slotId);
+        case 'RENAME_SLOT':
+          return renameSlot(event.slotId, event.name);
+        case 'DELETE_SLOT':
+          return deleteSlot(event.slotId);
+        case 'UPDATE_SETTINGS':
+          return updateSettings(event.settings);
+        case 'IMPORT_ARCHIVE':
+          return importArchive(event.entries);
+        case 'CREATE_PROFILE':
+          return createProfile(event.name);
+        case 'SELECT_PROFILE':
+          return selectProfile(event.profileId);
+        case 'EDIT_DRAFT':
+          return update({ draft: event.text, inquiryNotice: null });
+        case 'ASK':
+          return submit(event.text, false, event.force ?? false);
+        case 'SOLVE':
+          return submit(event.text, true, false);
+        case 'REQUEST_HINT':
+          return requestHint();
+        case 'SURRENDER':
+          return surrender();
+        case 'RETRY':
+          return retry();
+        case 'DISMISS_ERROR':
+          return update({ error: null });
+      }
+    },
+
+    dispose: () => {
+      activeRequest?.abort();
+      activeRequest = null;
+      if (revealTimer) clearTimeout(revealTimer);
+      revealTimer = null;
+    }
+  };
+};
@@ -0,0 +1,152 @@
+import { BudgetStatus, CaseState, DailyUsage, Difficulty, Interaction, PackSummary, PlayedPuzzle, Puzzle, TokenUsage } from "./types";
+import { MODEL_ERROR_DESCRIPTIONS, ModelErrorKind, isModelErrorKind } from "./modelErrors";
+import { ModelRoutingConfig } from "./modelRouting";
+import { FailureNotice, OraclePort } from "./gameEngine";
+
+// Browser-side client for the game master API (server/httpHandler.ts). The bottom only arrives in a `reveal`.
+
+// A failed request, with the oracle failure class when the server reported one
+export class GameMasterRequestError extends Error {
+  readonly status: number;
+  readonly kind: ModelErrorKind | null;
+  readonly retryable: boolean;
+
+  constructor(message: string, status: number, kind: ModelErrorKind | null, retryable: boolean) {
+    super(message);
+    this.name = 'GameMasterRequestError';
+    this.status = status;
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal; // Aborted by the UI when the player moves on
+  timeoutMs?: number;   // Gives up with a TimeoutError after this long
+}
+
+// Longer than the server's own oracle timeout, so a retried model call still has room to finish
+const DEFAULT_REQUEST_TIMEOUT_MS = 120000;
+
+const getRequestTimeoutMs = (options?: RequestOptions): number => {
+  if (options?.timeoutMs !== undefined) return options.timeoutMs;
+  // Read by name so Vite inlines this one setting, never the rest of the environment
+  const configured = Number(import.meta.env.VITE_REQUEST_TIMEOUT_MS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_REQUEST_TIMEOUT_MS;
+};
+
+const callGameMaster = async <T>(path: string, init?: { method: 'GET' | 'POST' | 'PUT'; body?: unknown }, options?: RequestOptions): Promise<T> => {
+  const method = init?.method ?? 'GET';
+  const timeout = AbortSignal.timeout(getRequestTimeoutMs(options));
+  const response = await fetch(`/api${path}`, {
+    method,
+    headers: init?.body !== undefined ? { 'Content-Type': 'application/json' } : {},
+    ...(init?.body !== undefined ? { body: JSON.stringify(init.body) } : {}),
+    signal: options?.signal ? AbortSignal.any([options.signal, timeout]) : timeout
+  });
+
+  let data: any = null;
+  try {
+    data = await response.json();
+  } catch {
+    // Non-JSON replies are reported below with the status code
+  }
+
+  if (!response.ok) {
+    throw new GameMasterRequestError(
+      data?.error || `Game master request failed (${response.status})`,
+      response.status,
+      isModelErrorKind(data?.kind) ? data.kind : null,
+      // Without a failure class, only server-side hiccups are worth retrying
+      typeof data?.retryable === 'boolean' ? data.retryable : response.status >= 500
+    );
+  }
+  return data as T;
+};
+
+export const fetchModelRouting = async (options?: RequestOptions): Promise<ModelRoutingConfig> => {
+  const data = await callGameMaster<{ routing: ModelRoutingConfig }>('/routing', undefined, options);
+  return data.routing;
+};
+
+// The game master validates again before it saves; a rejected routing comes back as a 400 with every problem listed
+export const saveModelRouting = async (routing: unknown, options?: RequestOptions): Promise<ModelRoutingConfig> => {
+  const data = await callGameMaster<{ routing: ModelRoutingConfig }>('/routing', { method: 'PUT', body: routing }, options);
+  return data.routing;
+};
+
+// The oracle in use and how long the game master keeps an untouched case
+export const fetchServerStatus = (options?: RequestOptions): Promise<{ oracle: string; caseTtlHours: number }> => {
+  return callGameMaster('/status', undefined, options);
+};
+
+// Today's usage of the shared key (null when the server keeps no ledger) and where it stands against the daily budget
+export const fetchUsage = (options?: RequestOptions): Promise<{ today: DailyUsage | null; budget: BudgetStatus }> => {
+  return callGameMaster('/usage', undefined, options);
+};
+
+export const fetchPackSummary = async (options?: RequestOptions): Promise<PackSummary[]> => {
+  const data = await callGameMaster<{ packs: PackSummary[] }>('/packs', undefined, options);
+  return data.packs;
+};
+
+export const startCase = (difficulty: Difficulty, played: PlayedPuzzle[], packOnly: boolean, options?: RequestOptions): Promise<CaseState> => {
+  return callGameMaster<CaseState>('/cases', { method: 'POST', body: { difficulty, played, packOnly } }, options);
+};
+
+// The same pack case for every player on the given local date
+export const startDailyCase = (day: string, options?: RequestOptions): Promise<CaseState> => {
+  return callGameMaster<CaseState>('/daily', { method: 'POST', body: { day } }, options);
+};
+
+export const fetchCase = (sessionId: string, options?: RequestOptions): Promise<CaseState> => {
+  return callGameMaster<CaseState>(`/cases/${encodeURIComponent(sessionId)}`, undefined, options);
+};
+
+export const askQuestion = (sessionId: string, question: string, options?: RequestOptions): Promise<{ interaction: Interaction; usage: TokenUsage }> => {
+  return callGameMaster(`/cases/${encodeURIComponent(sessionId)}/ask`, { method: 'POST', body: { question } }, options);
+};
+
+export const submitGuess = (sessionId: string, guess: string, options?: RequestOptions): Promise<{ interaction: Interaction; usage: TokenUsage; reveal?: Puzzle }> => {
+  return callGameMaster(`/cases/${encodeURIComponent(sessionId)}/guess`, { method: 'POST', body: { guess } }, options);
+};
+
+export const requestHint = (sessionId: string, options?: RequestOptions): Promise<{ interaction: Interaction; usage: TokenUsage; hintsRemaining: number }> => {
+  return callGameMaster(`/cases/${encodeURIComponent(sessionId)}/hint`, { method: 'POST' }, options);
+};
+
+export const surrenderCase = (sessionId: string, options?: RequestOptions): Promise<{ reveal: Puzzle }> => {
+  return callGameMaster(`/cases/${encodeURIComponent(sessionId)}/surrender`, { method: 'POST' }, options);
+};
+
+export const revealCase = (sessionId: string, options?: RequestOptions): Promise<{ reveal: Puzzle }> => {
+  return callGameMaster(`/cases/${encodeURIComponent(sessionId)}/reveal`, undefined, options);
+};
+
+// Turns a failed request into banner text and whether offering Retry makes sense
+export const describeFailure = (error: unknown, fallback: string): FailureNotice => {
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    // The request timeout above gave up on the game master
+    return { message: MODEL_ERROR_DESCRIPTIONS.timeout.message, retryable: true };
+  }
+  if (error instanceof GameMasterRequestError) {
+    return { message: error.message || fallback, retryable: error.retryable };
+  }
+  if (error instanceof TypeError) {
+    // fetch() itself failed: the game master is unreachable
+    return { message: MODEL_ERROR_DESCRIPTIONS.network.message, retryable: true };
+  }
+  return { message: fallback, retryable: true };
+};
+
+// The game engine's oracle port, backed by the game master API
+export const gameMasterOracle: OraclePort = {
+  startCase,
+  startDailyCase,
+  fetchCase,
+  askQuestion,
+  submitGuess,
+  requestHint,
+  surrenderCase,
+  describeFailure
+};
@@ -0,0 +1,64 @@
+import { Interaction } from "./types";
+import { findPriorRuling } from "./consistency";
+import { normalizeText } from "./textMatching";
+
+// Local first look at an ASK before it costs a model call: catches inquiries the Laws of Inquiry do not allow
+
+export type InquiryKind = 'open_ended' | 'repeat' | 'guess';
+
+export interface InquiryNotice {
+  kind: InquiryKind;
+  message: string; // In-character guidance shown next to the input box
+}
+
+// Words a yes/no question opens with
+const YES_NO_OPENERS = new Set([
+  'is', 'are', 'was', 'were', 'am', 'did', 'do', 'does', 'has', 'have', 'had',
+  'can', 'could', 'would', 'will', 'should', 'shall', 'may', 'might', 'must',
+  'isnt', 'arent', 'wasnt', 'werent', 'didnt', 'doesnt', 'dont', 'hasnt', 'havent', 'hadnt', 'couldnt', 'wouldnt'
+]);
+
+// Openers that ask for an explanation the Chronicler cannot give with Yes, No or Irrelevant
+const OPEN_ENDED_OPENERS = new Set(['why', 'how', 'what', 'who', 'whom', 'whose', 'where', 'when', 'which', 'describe', 'explain']);
+
+// Filler a detective may lead with before the real question
+const LEAD_INS = new Set(['so', 'and', 'but', 'then', 'ok', 'okay', 'well', 'hmm', 'also', 'now', 'chronicler', 'tell', 'me']);
+
+const STATUS_WORDS: Record<string, string> = { Yes: 'YES', No: 'NO', Irrelevant: 'IRRELEVANT' };
+
+const firstMeaningfulWord = (words: string[]): string | undefined => {
+  return words.find(word => !LEAD_INS.has(word));
+};
+
+// A notice when the inquiry should not go to the oracle as written, or null to send it on
+export const classifyInquiry = (text: string, history: Interaction[]): InquiryNotice | null => {
+  const words = normalizeText(text).split(' ').filter(word => word.length > 0);
+  if (words.length === 0) return null;
+
+  const prior = findPriorRuling(history, text);
+  if (prior && prior.status) {
+    return {
+      kind: 'repeat',
+      message: `The Chronicler taps an earlier line of the Inquiry Log: "${prior.content}" was already ruled ${STATUS_WORDS[prior.status] ?? prior.status}. Ask something new.`
+    };
+  }
+
+  // "Tell me why..." and "So, how..." count as open-ended too
+  const opener = firstMeaningfulWord(words);
+  if (opener && OPEN_ENDED_OPENERS.has(opener)) {
+    return {
+      kind: 'open_ended',
+      message: `"The Chronicler answers only Yes, No or Irrelevant, detective. Turn thy '${opener}' into a question of that shape: not 'why did he die?' but 'did he die by his own hand?'"`
+    };
+  }
+
+  const isQuestionShaped = text.trim().endsWith('?') || (words[0] !== undefined && YES_NO_OPENERS.has(words[0]));
+  if (!isQuestionShaped && words.length >= 3) {
+    return {
+      kind: 'guess',
+      message: `"That sounds like a solution, not an inquiry. If thou believest it to be the truth, lay it before the Chronicler with SOLVE."`
+    };
+  }
+
+  return null;
+};
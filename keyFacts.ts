@@ -0,0 +1,38 @@
+import { Puzzle, Interaction } from "./types";
+import { tokenize, mentionsAny } from "./textMatching";
+
+export const getKeyFacts = (puzzle: Puzzle | null): string[] => {
+  return puzzle?.keyFacts ?? [];
+};
+
+// A fact is uncovered once a question touching it has been answered Yes or No
+export const getUncoveredFactIndexes = (factCount: number, history: Interaction[]): Set<number> => {
+  const uncovered = new Set<number>();
+  history.forEach(interaction => {
+    if (interaction.type !== 'question' || (interaction.status !== 'Yes' && interaction.status !== 'No')) return;
+    interaction.factIndexes?.forEach(index => {
+      if (index >= 0 && index < factCount) uncovered.add(index);
+    });
+  });
+  return uncovered;
+};
+
+// Model answers use 1-based fact numbers; keep only valid ones as zero-based indexes
+export const toFactIndexes = (value: unknown, factCount: number): number[] => {
+  if (!Array.isArray(value)) return [];
+  const indexes = value
+    .filter((item): item is number => typeof item === 'number' && Number.isInteger(item))
+    .map(item => item - 1)
+    .filter(index => index >= 0 && index < factCount);
+  return [...new Set(indexes)];
+};
+
+// Rule-based mapping for the offline oracle: a question touches a fact when it shares a distinctive word with it
+export const matchQuestionToFacts = (puzzle: Puzzle, question: string): number[] => {
+  const surfaceTokens = new Set(tokenize(puzzle.surface));
+  const questionTokens = tokenize(question);
+  return getKeyFacts(puzzle).flatMap((fact, index) => {
+    const factTerms = tokenize(fact).filter(token => token.length > 2 && !surfaceTokens.has(token));
+    return mentionsAny(questionTokens, factTerms) ? [index] : [];
+  });
+};
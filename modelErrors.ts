@@ -0,0 +1,103 @@
+// Failure classes for model calls, shared by the game server (classification, retries) and the UI (banner text)
+
+export type ModelErrorKind =
+  | 'rate_limit'
+  | 'model_not_found'
+  | 'safety_block'
+  | 'malformed_json'
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'unknown';
+
+const MODEL_ERROR_KINDS: ModelErrorKind[] = ['rate_limit', 'model_not_found', 'safety_block', 'malformed_json', 'network', 'timeout', 'cancelled', 'unknown'];
+
+interface ModelErrorDescription {
+  message: string;    // What the player sees in the error banner
+  retryable: boolean; // Whether pressing Retry is likely to help
+  httpStatus: number; // Status the game server replies with
+}
+
+export const MODEL_ERROR_DESCRIPTIONS: Record<ModelErrorKind, ModelErrorDescription> = {
+  rate_limit: {
+    message: 'The Chronicler is overwhelmed with inquiries (rate limit reached). Wait a moment, then retry.',
+    retryable: true,
+    httpStatus: 429
+  },
+  model_not_found: {
+    message: 'None of the configured oracle models could be found. Retrying will not help until the model list is updated.',
+    retryable: false,
+    httpStatus: 502
+  },
+  safety_block: {
+    message: 'The oracle refused to answer this on safety grounds. Rephrase your inquiry and try again.',
+    retryable: false,
+    httpStatus: 422
+  },
+  malformed_json: {
+    message: 'The oracle answered in riddles of its own (malformed reply). Retrying usually helps.',
+    retryable: true,
+    httpStatus: 502
+  },
+  network: {
+    message: 'The messenger could not reach the oracle (network error). Check your connection and retry.',
+    retryable: true,
+    httpStatus: 503
+  },
+  timeout: {
+    message: 'The oracle took too long to answer. Retrying may help.',
+    retryable: true,
+    httpStatus: 504
+  },
+  cancelled: {
+    message: 'The inquiry was withdrawn before the oracle answered.',
+    retryable: true,
+    httpStatus: 499
+  },
+  unknown: {
+    message: 'Something went wrong while consulting the oracle. Please try again.',
+    retryable: true,
+    httpStatus: 502
+  }
+};
+
+export const isModelErrorKind = (value: unknown): value is ModelErrorKind => {
+  return typeof value === 'string' && MODEL_ERROR_KINDS.includes(value as ModelErrorKind);
+};
+
+// A model call that failed for good, after the retry policy for its class was used up
+export class ModelCallError extends Error {
+  readonly kind: ModelErrorKind;
+
+  constructor(kind: ModelErrorKind, message: string) {
+    super(message);
+    this.name = 'ModelCallError';
+    this.kind = kind;
+  }
+
+  get retryable(): boolean {
+    return MODEL_ERROR_DESCRIPTIONS[this.kind].retryable;
+  }
+}
+
+export const isCancellation = (error: unknown): boolean => {
+  return error instanceof ModelCallError && error.kind === 'cancelled';
+};
+
+// Sorts an error thrown by the Gemini SDK (or our own parsing) into a failure class
+export const classifyModelError = (error: unknown): ModelErrorKind => {
+  if (error instanceof ModelCallError) return error.kind;
+  if (error instanceof SyntaxError) return 'malformed_json';
+
+  const status = typeof (error as any)?.status === 'number' ? (error as any).status : undefined;
+  const name = error instanceof Error ? error.name : '';
+  const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+
+  if (status === 429 || message.includes('429') || message.includes('resource_exhausted') || message.includes('quota')) return 'rate_limit';
+  if (status === 404 || message.includes('404') || message.includes('not found')) return 'model_not_found';
+  if (message.includes('safety') || message.includes('blocked') || message.includes('prohibited_content')) return 'safety_block';
+  // Aborts we did not ask for come from the per-attempt timeout
+  if (name === 'AbortError' || name === 'TimeoutError' || name === 'GoogleGenerativeAIAbortError' || status === 504 || message.includes('aborted') || message.includes('timed out') || message.includes('timeout') || message.includes('deadline')) return 'timeout';
+  if (message.includes('fetch failed') || message.includes('network') || message.includes('econnreset') || message.includes('enotfound') || message.includes('socket')) return 'network';
+  return 'unknown';
+};
@@ -0,0 +1,174 @@
+import { Difficulty } from "./types";
+
+// Which models serve each oracle operation, in fallback order, and with which generation settings.
+// Loaded from model-routing.json (or saved from the in-app settings) and validated before the server uses it.
+
+export const MODEL_ROUTING_FORMAT = 'kingdom-secrets/model-routing';
+export const MODEL_ROUTING_VERSION = 1;
+
+export type ModelOperation = 'generatePuzzle' | 'judgeQuestion' | 'judgeGuess' | 'writeHint';
+
+export const MODEL_OPERATIONS: ModelOperation[] = ['generatePuzzle', 'judgeQuestion', 'judgeGuess', 'writeHint'];
+
+export const MODEL_OPERATION_LABELS: Record<ModelOperation, string> = {
+  generatePuzzle: 'Puzzle generation',
+  judgeQuestion: 'Question judging',
+  judgeGuess: 'Guess judging',
+  writeHint: 'Hint writing'
+};
+
+export type ApiVersion = 'v1' | 'v1beta';
+
+export interface ModelRoute {
+  model: string;
+  apiVersion?: ApiVersion; // v1beta unless set; responseSchema needs it
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  inputPricePerMillion?: number;  // USD per million prompt tokens, for cost estimates
+  outputPricePerMillion?: number; // USD per million output tokens
+}
+
+export interface ModelRoutingConfig {
+  format: typeof MODEL_ROUTING_FORMAT;
+  version: number;
+  routes: Record<ModelOperation, Record<Difficulty, ModelRoute[]>>;
+}
+
+export interface RoutingValidationResult {
+  config: ModelRoutingConfig | null; // null when anything is wrong; a half-valid routing is not used
+  errors: string[];
+}
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+const API_VERSIONS: ApiVersion[] = ['v1', 'v1beta'];
+
+const FALLBACK_MODELS: Record<Difficulty, string[]> = {
+  Easy: ['gemini-2.5-flash-lite', 'gemini-2.5-flash'],
+  Medium: ['gemini-2.5-flash', 'gemini-2.0-flash'],
+  Hard: ['gemini-2.5-pro', 'gemini-2.5-flash']
+};
+
+// Puzzles want some invention; verdicts want the same answer every time
+const DEFAULT_TEMPERATURES: Record<ModelOperation, number> = {
+  generatePuzzle: 1,
+  judgeQuestion: 0.1,
+  judgeGuess: 0.1,
+  writeHint: 0.7
+};
+
+const buildDefaultRoutes = (): Record<ModelOperation, Record<Difficulty, ModelRoute[]>> => {
+  const routes = {} as Record<ModelOperation, Record<Difficulty, ModelRoute[]>>;
+  MODEL_OPERATIONS.forEach(operation => {
+    routes[operation] = {
+      Easy: FALLBACK_MODELS.Easy.map(model => ({ model, temperature: DEFAULT_TEMPERATURES[operation] })),
+      Medium: FALLBACK_MODELS.Medium.map(model => ({ model, temperature: DEFAULT_TEMPERATURES[operation] })),
+      Hard: FALLBACK_MODELS.Hard.map(model => ({ model, temperature: DEFAULT_TEMPERATURES[operation] }))
+    };
+  });
+  return routes;
+};
+
+export const DEFAULT_MODEL_ROUTING: ModelRoutingConfig = {
+  format: MODEL_ROUTING_FORMAT,
+  version: MODEL_ROUTING_VERSION,
+  routes: buildDefaultRoutes()
+};
+
+const checkNumber = (value: unknown, field: string, min: number, max: number, errors: string[], integer = false) => {
+  if (value === undefined) return;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+    errors.push(`${field} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}`);
+  }
+};
+
+const validateRoute = (entry: any, field: string, errors: string[]): ModelRoute | null => {
+  if (!entry || typeof entry !== 'object') {
+    errors.push(`${field} must be an object with a "model" name`);
+    return null;
+  }
+  const before = errors.length;
+  if (typeof entry.model !== 'string' || !/^[\w.-]+$/.test(entry.model)) {
+    errors.push(`${field}.model must be a model name such as "gemini-2.5-flash"`);
+  }
+  if (entry.apiVersion !== undefined && !API_VERSIONS.includes(entry.apiVersion)) {
+    errors.push(`${field}.apiVersion must be one of ${API_VERSIONS.join(', ')}`);
+  }
+  checkNumber(entry.temperature, `${field}.temperature`, 0, 2, errors);
+  checkNumber(entry.topP, `${field}.topP`, 0, 1, errors);
+  checkNumber(entry.topK, `${field}.topK`, 1, 1000, errors, true);
+  checkNumber(entry.maxOutputTokens, `${field}.maxOutputTokens`, 1, 65536, errors, true);
+  checkNumber(entry.inputPricePerMillion, `${field}.inputPricePerMillion`, 0, 1000, errors);
+  checkNumber(entry.outputPricePerMillion, `${field}.outputPricePerMillion`, 0, 1000, errors);
+  const known = ['model', 'apiVersion', 'temperature', 'topP', 'topK', 'maxOutputTokens', 'inputPricePerMillion', 'outputPricePerMillion'];
+  Object.keys(entry).filter(key => !known.includes(key)).forEach(key => errors.push(`${field}.${key} is not a known setting`));
+  if (errors.length > before) return null;
+
+  const route: ModelRoute = { model: entry.model };
+  if (entry.apiVersion !== undefined) route.apiVersion = entry.apiVersion;
+  if (entry.temperature !== undefined) route.temperature = entry.temperature;
+  if (entry.topP !== undefined) route.topP = entry.topP;
+  if (entry.topK !== undefined) route.topK = entry.topK;
+  if (entry.maxOutputTokens !== undefined) route.maxOutputTokens = entry.maxOutputTokens;
+  if (entry.inputPricePerMillion !== undefined) route.inputPricePerMillion = entry.inputPricePerMillion;
+  if (entry.outputPricePerMillion !== undefined) route.outputPricePerMillion = entry.outputPricePerMillion;
+  return route;
+};
+
+// Validates a parsed routing file. Operations or difficulties left out keep their default routes.
+export const validateModelRouting = (data: any, source: string): RoutingValidationResult => {
+  if (!data || typeof data !== 'object') {
+    return { config: null, errors: [`${source}: routing is not a JSON object`] };
+  }
+  if (data.format !== MODEL_ROUTING_FORMAT) {
+    return { config: null, errors: [`${source}: format must be "${MODEL_ROUTING_FORMAT}"`] };
+  }
+  if (typeof data.version !== 'number' || data.version > MODEL_ROUTING_VERSION) {
+    return { config: null, errors: [`${source}: unsupported routing version ${data.version} (this build reads up to ${MODEL_ROUTING_VERSION})`] };
+  }
+  if (!data.routes || typeof data.routes !== 'object') {
+    return { config: null, errors: [`${source}: routes must be an object keyed by operation`] };
+  }
+
+  const errors: string[] = [];
+  const routes = buildDefaultRoutes();
+  Object.entries(data.routes as Record<string, any>).forEach(([operation, byDifficulty]) => {
+    if (!MODEL_OPERATIONS.includes(operation as ModelOperation)) {
+      errors.push(`${source}: unknown operation "${operation}" (expected ${MODEL_OPERATIONS.join(', ')})`);
+      return;
+    }
+    if (!byDifficulty || typeof byDifficulty !== 'object') {
+      errors.push(`${source}: routes.${operation} must be an object keyed by difficulty`);
+      return;
+    }
+    Object.entries(byDifficulty as Record<string, any>).forEach(([difficulty, list]) => {
+      const field = `${source}: routes.${operation}.${difficulty}`;
+      if (!DIFFICULTIES.includes(difficulty as Difficulty)) {
+        errors.push(`${field} is not a difficulty (expected ${DIFFICULTIES.join(', ')})`);
+        return;
+      }
+      if (!Array.isArray(list) || list.length === 0) {
+        errors.push(`${field} must be a non-empty list of models`);
+        return;
+      }
+      const parsed = list.map((entry, i) => validateRoute(entry, `${field}[${i}]`, errors));
+      if (parsed.every((route): route is ModelRoute => route !== null)) {
+        routes[operation as ModelOperation][difficulty as Difficulty] = parsed;
+      }
+    });
+  });
+
+  if (errors.length > 0) return { config: null, errors };
+  return { config: { format: MODEL_ROUTING_FORMAT, version: MODEL_ROUTING_VERSION, routes }, errors };
+};
+
+export const countModelRoutes = (config: ModelRoutingConfig, operation: ModelOperation, difficulty: Difficulty): number => {
+  return config.routes[operation][difficulty].length;
+};
+
+// The model to try on the given attempt; past the end of the list, the last model keeps serving
+export const getModelRoute = (config: ModelRoutingConfig, operation: ModelOperation, difficulty: Difficulty, attempt: number): ModelRoute => {
+  const routes = config.routes[operation][difficulty];
+  return routes[Math.max(0, Math.min(attempt, routes.length - 1))]!;
+};
@@ -0,0 +1,339 @@
+import { Puzzle, Interaction, Difficulty, RiddleOracle, OracleCallOptions } from "./types";
+import { ModelCallError } from "./modelErrors";
+import { tokenize, mentionsAny, findMentionedWords } from "./textMatching";
+import { matchQuestionToFacts } from "./keyFacts";
+
+// A canned case for the offline oracle: the puzzle plus the rules used to judge it
+interface OfflineCase {
+  puzzle: Puzzle;
+  yesTerms: string[];        // Mentioning any of these earns a "Yes"
+  noTerms: string[];         // Mentioning any of these earns a "No" (checked first)
+  solutionTerms: string[][]; // A guess must hit at least one term from every group...
+  minGroups?: number;        // ...unless this many groups is declared enough
+  hints: string[];
+}
+
+const INCORRECT_FEEDBACK = "The truth remains shrouded in mystery.";
+const CORRECT_FEEDBACK = "The Chronicler bows. You have seen through the shadows.";
+const CLOSE_FEEDBACK = "You tread near the truth, yet part of it still hides from you.";
+const NO_MORE_HINTS = "The Chronicler has no further counsel to give.";
+
+const OFFLINE_CASES: OfflineCase[] = [
+  {
+    puzzle: {
+      title: "The Sentry Who Never Slept",
+      surface: "For forty winters a sentry stood at the castle gate. He never ate, never slept and never left his post, yet the king never once rebuked him.",
+      bottom: "The sentry was a stone statue carved beside the gate.",
+      difficulty: 'Easy',
+      keyFacts: [
+        "The sentry is a statue.",
+        "The statue is carved from stone."
+      ]
+    },
+    yesTerms: ['statue', 'stone', 'carved', 'sculpture', 'object', 'alive', 'made'],
+    noTerms: ['human', 'man', 'ghost', 'magic', 'curse', 'punished'],
+    solutionTerms: [['statue', 'stone', 'carved', 'sculpture', 'carving']],
+    hints: [
+      "Consider what the sentry is made of.",
+      "No blood flows through this guard.",
+      "A mason knows him better than any captain."
+    ]
+  },
+  {
+    puzzle: {
+      title: "The Melting Guard",
+      surface: "At dawn the children crowned a proud guard in the courtyard. By midday only his hat, two coals and a carrot remained on the ground.",
+      bottom: "The guard was a snowman built by the children, and he melted in the sun.",
+      difficulty: 'Easy',
+      keyFacts: [
+        "The guard was a snowman.",
+        "The children built him.",
+        "He melted in the sun."
+      ]
+    },
+    yesTerms: ['snow', 'snowman', 'melt', 'sun', 'winter', 'ice', 'cold', 'built', 'made'],
+    noTerms: ['murder', 'killed', 'human', 'man', 'stolen', 'animal'],
+    solutionTerms: [['snowman', 'snow', 'ice'], ['melt', 'sun', 'warm', 'heat', 'thaw']],
+    hints: [
+      "The guard was born of winter.",
+      "What does the midday sun do to him?",
+      "The children shaped him with their own mittens."
+    ]
+  },
+  {
+    puzzle: {
+      title: "The Lost Hound",
+      surface: "A lord lost his most loyal companion and begged the King's Watch for help. The Watch laughed and sent him away.",
+      bottom: "The companion was the lord's hunting dog, and the King's Watch does not search for lost hounds.",
+      difficulty: 'Easy',
+      keyFacts: [
+        "The companion was a dog.",
+        "The Watch does not search for lost hounds."
+      ]
+    },
+    yesTerms: ['dog', 'hound', 'animal', 'pet', 'beast', 'hunting'],
+    noTerms: ['wife', 'son', 'daughter', 'human', 'person', 'servant', 'kidnapped'],
+    solutionTerms: [['dog', 'hound']],
+    hints: [
+      "The companion never spoke a word in its life.",
+      "It walked on four legs.",
+      "It was best at finding deer in the forest."
+    ]
+  },
+  {
+    puzzle: {
+      title: "The Tower Leap",
+      surface: "A squire leapt from a window of the tallest tower in the realm. He landed on bare stone and walked away without a scratch.",
+      bottom: "He jumped from a window on the ground floor of the tower, not from the top.",
+      difficulty: 'Medium',
+      keyFacts: [
+        "He jumped from a ground floor window.",
+        "The fall was very short."
+      ]
+    },
+    yesTerms: ['ground', 'floor', 'low', 'window', 'first', 'bottom', 'short'],
+    noTerms: ['magic', 'wing', 'rope', 'hay', 'water', 'died', 'high', 'top'],
+    solutionTerms: [['ground', 'first', 'low', 'bottom', 'lowest'], ['floor', 'window', 'level', 'storey', 'story', 'height']],
+    hints: [
+      "The tower is tall, but was the window?",
+      "Count the steps he climbed before leaping.",
+      "Not every window of a tower is near the clouds."
+    ]
+  },
+  {
+    puzzle: {
+      title: "The Bride of Ten Grooms",
+      surface: "A young woman of the village wed ten different men in a single season. None of them died, none divorced her, and the priest blessed every union.",
+      bottom: "She was a travelling player who acted the bride in a play performed ten times.",
+      difficulty: 'Medium',
+      keyFacts: [
+        "She was an actress.",
+        "The weddings were scenes in a play.",
+        "The play was performed ten times."
+      ]
+    },
+    yesTerms: ['actress', 'actor', 'play', 'stage', 'perform', 'performance', 'theatre', 'theater', 'pretend', 'acting', 'player'],
+    noTerms: ['witch', 'magic', 'widow', 'died', 'divorce', 'bigamy', 'crime'],
+    solutionTerms: [['actress', 'actor', 'play', 'stage', 'perform', 'performance', 'theatre', 'theater', 'act', 'acting', 'pretend', 'player']],
+    hints: [
+      "The priest was no more a priest than the grooms were grooms.",
+      "Every wedding had an audience that paid to watch.",
+      "The village fair brought more than merchants."
+    ]
+  },
+  {
+    puzzle: {
+      title: "The Oven of the Little Men",
+      surface: "The baker's wife opened the oven and found a dozen little men lying still inside. She smiled and called the children to supper.",
+      bottom: "The little men were gingerbread men she had baked.",
+      difficulty: 'Medium',
+      keyFacts: [
+        "The little men were gingerbread.",
+        "She had baked them as food."
+      ]
+    },
+    yesTerms: ['gingerbread', 'bread', 'food', 'baked', 'cookie', 'biscuit', 'dough', 'cake', 'eat', 'sweet'],
+    noTerms: ['dead', 'murder', 'human', 'person', 'children', 'killed', 'alive'],
+    solutionTerms: [['gingerbread', 'bread', 'cookie', 'biscuit', 'cake', 'dough', 'pastry', 'baked']],
+    hints: [
+      "The little men were never alive.",
+      "They were made in the kitchen, not the nursery.",
+      "Ginger and honey went into their making."
+    ]
+  },
+  {
+    puzzle: {
+      title: "The Starved Menagerie",
+      surface: "A duke sealed his prized tigers in their stone pens and rode off to war. When he returned six months later, the pens were silent and nobody was to blame but himself.",
+      bottom: "Nobody fed the tigers while he was away, so they starved to death.",
+      difficulty: 'Hard',
+      keyFacts: [
+        "Nobody fed the tigers.",
+        "The tigers starved to death.",
+        "The duke forgot to arrange for their food."
+      ]
+    },
+    yesTerms: ['starve', 'starved', 'food', 'hunger', 'fed', 'feed', 'dead', 'died', 'forgot', 'forgotten'],
+    noTerms: ['poison', 'murder', 'escaped', 'stolen', 'disease', 'sold', 'magic'],
+    solutionTerms: [['starve', 'starved', 'starvation', 'hunger', 'fed', 'feed', 'food', 'eat']],
+    hints: [
+      "The duke remembered his sword, but forgot something else.",
+      "Beasts need more than stone walls to live.",
+      "Six months is a long time between meals."
+    ]
+  },
+  {
+    puzzle: {
+      title: "The Single Match",
+      surface: "A knight entered a pitch-black cellar carrying a single match. Inside waited an oil lamp, a candle and a stack of firewood. He survived the night because he chose correctly.",
+      bottom: "He had to light the match first, before anything else could burn.",
+      difficulty: 'Hard',
+      keyFacts: [
+        "He had to light the match first.",
+        "Nothing else could burn without the match."
+      ]
+    },
+    yesTerms: ['match', 'first', 'light', 'strike', 'lit'],
+    noTerms: ['lamp', 'candle', 'firewood', 'wood', 'oil', 'monster', 'trap'],
+    solutionTerms: [['match'], ['first', 'before', 'strike', 'light', 'lit']],
+    hints: [
+      "The question is not which to light, but what must burn before any of them.",
+      "He held the answer in his hand the whole time.",
+      "Every fire begins with a single spark."
+    ]
+  },
+  {
+    puzzle: {
+      title: "The Ruined Merchant",
+      surface: "A wealthy merchant moved his carriage onto the lord's estate and immediately declared himself ruined. Nobody robbed him, and he slept soundly that very night.",
+      bottom: "He was playing a board game of trade and landed his carriage token on a square he could not afford.",
+      difficulty: 'Hard',
+      keyFacts: [
+        "He was playing a board game.",
+        "His carriage was a game token.",
+        "He landed on a square he could not afford."
+      ]
+    },
+    yesTerms: ['game', 'board', 'token', 'piece', 'play', 'playing', 'dice', 'square', 'rent', 'pretend'],
+    noTerms: ['robbed', 'thief', 'tax', 'king', 'war', 'real', 'fire'],
+    solutionTerms: [['game', 'board', 'dice', 'token', 'piece'], ['play', 'playing', 'rent', 'square', 'land', 'landed', 'bankrupt', 'ruin', 'afford']],
+    hints: [
+      "His carriage was no larger than his thumb.",
+      "The estate existed only on a painted board.",
+      "A roll of the dice decided his fate."
+    ]
+  }
+];
+
+const getCasesForDifficulty = (difficulty: Difficulty): OfflineCase[] => {
+  return OFFLINE_CASES.filter(c => c.puzzle.difficulty === difficulty);
+};
+
+const GENERIC_HINTS = [
+  "Question what the surface takes for granted.",
+  "Ask who, or what, the tale is truly about.",
+  "The strangest detail of the tale is the key to it."
+];
+
+// Words of the truth that the surface does not already give away
+const distinctiveTerms = (text: string, surfaceTokens: Set<string>): string[] => {
+  return tokenize(text).filter(token => token.length > 2 && !surfaceTokens.has(token));
+};
+
+// Rule-based judging for puzzles without a hand-written case (e.g. puzzle pack entries)
+const buildGenericCase = (puzzle: Puzzle): OfflineCase => {
+  const surfaceTokens = new Set(tokenize(puzzle.surface));
+  const factGroups = (puzzle.keyFacts ?? [])
+    .map(fact => distinctiveTerms(fact, surfaceTokens))
+    .filter(group => group.length > 0);
+  const bottomTerms = distinctiveTerms(puzzle.bottom, surfaceTokens);
+
+  const solutionTerms = factGroups.length > 0 ? factGroups : [bottomTerms];
+
+  return {
+    puzzle,
+    yesTerms: bottomTerms,
+    noTerms: [],
+    solutionTerms,
+    minGroups: Math.ceil(solutionTerms.length / 2),
+    hints: GENERIC_HINTS
+  };
+};
+
+const findCase = (puzzle: Puzzle): OfflineCase => {
+  return OFFLINE_CASES.find(c => c.puzzle.title === puzzle.title) ?? buildGenericCase(puzzle);
+};
+
+// Deterministic pick: the first unplayed case of the difficulty, else cycle through them
+export const pickOfflineCase = (difficulty: Difficulty, playedTitles: string[] = []): Puzzle => {
+  const cases = getCasesForDifficulty(difficulty);
+  const unplayed = cases.find(c => !playedTitles.includes(c.puzzle.title));
+  const chosen = unplayed ?? cases[playedTitles.length % cases.length];
+  if (!chosen) {
+    throw new Error(`No offline cases available for difficulty ${difficulty}`);
+  }
+  return { ...chosen.puzzle };
+};
+
+const judgeQuestion = (offlineCase: OfflineCase, question: string): 'Yes' | 'No' | 'Irrelevant' => {
+  const tokens = tokenize(question);
+  if (mentionsAny(tokens, offlineCase.noTerms)) return 'No';
+  if (mentionsAny(tokens, offlineCase.yesTerms)) return 'Yes';
+  return 'Irrelevant';
+};
+
+interface GuessJudgement {
+  status: 'Correct' | 'Close' | 'Incorrect';
+  matchedElements: string[];
+  missingElements: string[];
+}
+
+const judgeGuess = (offlineCase: OfflineCase, guess: string): GuessJudgement => {
+  const tokens = tokenize(guess);
+  const groupCount = offlineCase.solutionTerms.length;
+  const matchedElements: string[] = [];
+  const missingElements: string[] = [];
+
+  offlineCase.solutionTerms.forEach((group, index) => {
+    if (mentionsAny(tokens, group)) {
+      matchedElements.push(findMentionedWords(guess, group).join(' '));
+    } else {
+      missingElements.push(`a hidden thread of the truth (${index + 1} of ${groupCount})`);
+    }
+  });
+
+  const required = offlineCase.minGroups ?? groupCount;
+  const status = matchedElements.length >= required ? 'Correct' : matchedElements.length > 0 ? 'Close' : 'Incorrect';
+  return { status, matchedElements, missingElements };
+};
+
+// Offline answers are instant, but a call cancelled before it starts is still refused
+const ensureNotCancelled = (options?: OracleCallOptions) => {
+  if (options?.signal?.aborted) {
+    throw new ModelCallError('cancelled', 'Offline oracle call was cancelled');
+  }
+};
+
+export const offlineOracle: RiddleOracle = {
+  name: 'offline',
+
+  generateNewPuzzle: async (difficulty, avoid, options) => {
+    ensureNotCancelled(options);
+    return pickOfflineCase(difficulty, avoid.playedTitles);
+  },
+
+  generateHint: async (puzzle, _history, hintIndex, options) => {
+    ensureNotCancelled(options);
+    const offlineCase = findCase(puzzle);
+    return offlineCase.hints[hintIndex - 1] ?? NO_MORE_HINTS;
+  },
+
+  evaluateInteraction: async (puzzle, _history, userInput, isGuess, options): Promise<Interaction> => {
+    ensureNotCancelled(options);
+    const offlineCase = findCase(puzzle);
+
+    if (isGuess) {
+      const judgement = judgeGuess(offlineCase, userInput);
+      const interaction: Interaction = {
+        type: 'guess',
+        content: userInput,
+        response: judgement.status === 'Correct' ? CORRECT_FEEDBACK : judgement.status === 'Close' ? CLOSE_FEEDBACK : INCORRECT_FEEDBACK,
+        status: judgement.status
+      };
+      if (judgement.status === 'Close') {
+        interaction.matchedElements = judgement.matchedElements;
+        interaction.missingElements = judgement.missingElements;
+      }
+      return interaction;
+    }
+
+    const status = judgeQuestion(offlineCase, userInput);
+    return {
+      type: 'question',
+      content: userInput,
+      response: "",
+      status,
+      factIndexes: status === 'Irrelevant' ? [] : matchQuestionToFacts(puzzle, userInput)
+    };
+  }
+};
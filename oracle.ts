@@ -0,0 +1,27 @@
+import { RiddleOracle } from "./types";
+import { geminiOracle, hasGeminiApiKey } from "./geminiService";
+import { offlineOracle } from "./offlineOracle";
+import { readEnv } from "./env";
+
+export type OracleProviderName = 'gemini' | 'offline';
+
+const ORACLES: Record<OracleProviderName, RiddleOracle> = {
+  gemini: geminiOracle,
+  offline: offlineOracle
+};
+
+// ORACLE_PROVIDER picks the provider explicitly; otherwise fall back to offline when no key is set
+export const resolveOracleProvider = (): OracleProviderName => {
+  const requested = readEnv('ORACLE_PROVIDER');
+  if (requested === 'gemini' || requested === 'offline') {
+    return requested;
+  }
+  if (requested) {
+    console.warn(`⚠️ Unknown oracle provider "${requested}", choosing automatically`);
+  }
+  return hasGeminiApiKey() ? 'gemini' : 'offline';
+};
+
+export const getOracle = (provider: OracleProviderName = resolveOracleProvider()): RiddleOracle => {
+  return ORACLES[provider];
+};
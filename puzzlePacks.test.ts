@@ -0,0 +1,27 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { PUZZLE_PACK_FORMAT, validatePuzzlePack } from './puzzlePacks';
+
+const PUZZLE = {
+  title: 'The Silent Sentry',
+  surface: 'The sentry never moved, not even when the gate was stormed.',
+  bottom: 'The sentry was a stone statue.',
+  difficulty: 'Easy',
+  tags: ['statue'],
+  keyFacts: ['The sentry is a statue.']
+};
+
+const packFile = (overrides: object) => ({ format: PUZZLE_PACK_FORMAT, version: 1, id: 'test-pack', name: 'Test Pack', puzzles: [PUZZLE], ...overrides });
+
+test('a pack version must be a whole number from 1 up', () => {
+  [0, -1, 0.5, '1'].forEach(version => {
+    assert.equal(validatePuzzlePack(packFile({ version }), 'test.json').pack, null, `version ${version}`);
+  });
+  assert.ok(validatePuzzlePack(packFile({ version: 1 }), 'test.json').pack);
+});
+
+test('titles that differ only in spacing or case are duplicates', () => {
+  const { pack, errors } = validatePuzzlePack(packFile({ puzzles: [PUZZLE, { ...PUZZLE, title: ' the silent sentry ' }] }), 'test.json');
+  assert.equal(pack?.puzzles.length, 1);
+  assert.match(errors[0]!, /duplicate title/);
+});
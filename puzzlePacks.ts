@@ -0,0 +1,151 @@
+import { Difficulty, PackPuzzle, PuzzlePack, PackSummary } from "./types";
+
+export const PUZZLE_PACK_FORMAT = 'kingdom-secrets/puzzle-pack';
+export const PUZZLE_PACK_VERSION = 1;
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+const MAX_TITLE_LENGTH = 100;
+const MAX_TEXT_LENGTH = 1500;
+
+export interface PackValidationResult {
+  pack: PuzzlePack | null; // null when the pack as a whole is unusable
+  errors: string[];        // One readable message per rejected pack or entry
+}
+
+const isNonEmptyString = (value: any, maxLength: number): boolean => {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+};
+
+const isStringArray = (value: any): value is string[] => {
+  return Array.isArray(value) && value.every((item: any) => typeof item === 'string' && item.trim().length > 0);
+};
+
+// Returns the problems with a single pack entry; an empty list means the entry is valid
+const validatePackPuzzle = (entry: any): string[] => {
+  if (!entry || typeof entry !== 'object') {
+    return ['entry is not an object'];
+  }
+  const problems: string[] = [];
+  if (!isNonEmptyString(entry.title, MAX_TITLE_LENGTH)) {
+    problems.push(`title must be a non-empty string of at most ${MAX_TITLE_LENGTH} characters`);
+  }
+  if (!isNonEmptyString(entry.surface, MAX_TEXT_LENGTH)) {
+    problems.push(`surface must be a non-empty string of at most ${MAX_TEXT_LENGTH} characters`);
+  }
+  if (!isNonEmptyString(entry.bottom, MAX_TEXT_LENGTH)) {
+    problems.push(`bottom must be a non-empty string of at most ${MAX_TEXT_LENGTH} characters`);
+  }
+  if (!DIFFICULTIES.includes(entry.difficulty)) {
+    problems.push(`difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+  }
+  if (!isStringArray(entry.tags)) {
+    problems.push('tags must be an array of non-empty strings');
+  }
+  if (!isStringArray(entry.keyFacts) || entry.keyFacts.length === 0) {
+    problems.push('keyFacts must be a non-empty array of non-empty strings');
+  }
+  return problems;
+};
+
+// Validates a parsed pack file. Malformed entries are dropped and reported; the rest of the pack survives.
+export const validatePuzzlePack = (data: any, source: string): PackValidationResult => {
+  if (!data || typeof data !== 'object') {
+    return { pack: null, errors: [`${source}: pack is not a JSON object`] };
+  }
+  if (data.format !== PUZZLE_PACK_FORMAT) {
+    return { pack: null, errors: [`${source}: format must be "${PUZZLE_PACK_FORMAT}"`] };
+  }
+  if (!Number.isInteger(data.version) || data.version < 1 || data.version > PUZZLE_PACK_VERSION) {
+    return { pack: null, errors: [`${source}: unsupported pack version ${data.version} (this build reads versions 1 to ${PUZZLE_PACK_VERSION})`] };
+  }
+  if (!isNonEmptyString(data.id, MAX_TITLE_LENGTH) || !isNonEmptyString(data.name, MAX_TITLE_LENGTH)) {
+    return { pack: null, errors: [`${source}: id and name must be non-empty strings`] };
+  }
+  if (!Array.isArray(data.puzzles)) {
+    return { pack: null, errors: [`${source}: puzzles must be an array`] };
+  }
+
+  const errors: string[] = [];
+  const seenTitles = new Set<string>();
+  const puzzles: PackPuzzle[] = [];
+
+  data.puzzles.forEach((entry: any, index: number) => {
+    const label = typeof entry?.title === 'string' ? `puzzle #${index + 1} ("${entry.title}")` : `puzzle #${index + 1}`;
+    const problems = validatePackPuzzle(entry);
+    // Titles are stored trimmed, so " The Sentry" and "The Sentry" are the same puzzle
+    const titleKey = problems.length === 0 ? entry.title.trim().toLowerCase() : '';
+    if (problems.length === 0 && seenTitles.has(titleKey)) {
+      problems.push('duplicate title within the pack');
+    }
+    if (problems.length > 0) {
+      errors.push(`${source}: ${label} rejected: ${problems.join('; ')}`);
+      return;
+    }
+    seenTitles.add(titleKey);
+    puzzles.push({
+      title: entry.title.trim(),
+      surface: entry.surface.trim(),
+      bottom: entry.bottom.trim(),
+      difficulty: entry.difficulty,
+      tags: entry.tags,
+      keyFacts: entry.keyFacts
+    });
+  });
+
+  const pack: PuzzlePack = {
+    format: PUZZLE_PACK_FORMAT,
+    version: data.version,
+    id: data.id,
+    name: data.name,
+    puzzles
+  };
+  if (typeof data.description === 'string') {
+    pack.description = data.description;
+  }
+  return { pack, errors };
+};
+
+export const getPackPuzzles = (packs: PuzzlePack[], difficulty: Difficulty): PackPuzzle[] => {
+  return packs.flatMap(pack => pack.puzzles.filter(puzzle => puzzle.difficulty === difficulty));
+};
+
+// Random pick among unplayed pack puzzles, falling back to any pack puzzle of that difficulty
+export const pickPackPuzzle = (packs: PuzzlePack[], difficulty: Difficulty, playedTitles: string[] = []): PackPuzzle => {
+  const candidates = getPackPuzzles(packs, difficulty);
+  if (candidates.length === 0) {
+    throw new Error(`No installed puzzle pack has a ${difficulty} case`);
+  }
+  const unplayed = candidates.filter(puzzle => !playedTitles.includes(puzzle.title));
+  const pool = unplayed.length > 0 ? unplayed : candidates;
+  return { ...pool[Math.floor(Math.random() * pool.length)]! };
+};
+
+// The daily case: every pack puzzle in a fixed order (pack id, then title), indexed by a hash of the date, so the same
+// installed packs give everyone the same case on the same day
+export const pickDailyPuzzle = (packs: PuzzlePack[], day: string): PackPuzzle => {
+  const candidates = packs
+    .flatMap(pack => pack.puzzles.map(puzzle => ({ key: `${pack.id}/${puzzle.title}`, puzzle })))
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  if (candidates.length === 0) {
+    throw new Error('No puzzle pack is installed, so there is no daily case');
+  }
+  // FNV-1a; Math.imul keeps the multiplication in 32 bits
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < day.length; i++) {
+    hash = Math.imul(hash ^ day.charCodeAt(i), 0x01000193);
+  }
+  return { ...candidates[(hash >>> 0) % candidates.length]!.puzzle };
+};
+
+// What the browser may know about installed packs: names and case counts, never the puzzles
+export const summarizePacks = (packs: PuzzlePack[]): PackSummary[] => {
+  return packs.map(pack => ({
+    id: pack.id,
+    name: pack.name,
+    counts: {
+      Easy: getPackPuzzles([pack], 'Easy').length,
+      Medium: getPackPuzzles([pack], 'Medium').length,
+      Hard: getPackPuzzles([pack], 'Hard').length
+    }
+  }));
+};
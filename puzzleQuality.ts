@@ -0,0 +1,95 @@
+import { Difficulty, Puzzle } from "./types";
+import { normalizeText, tokenize } from "./textMatching";
+
+// Checks a freshly generated puzzle before it is served. Pack puzzles go through validatePuzzlePack instead.
+
+const LIMITS = {
+  title: { min: 3, max: 80 },
+  surface: { min: 40, max: 700 },
+  bottom: { min: 20, max: 900 },
+  keyFact: { min: 5, max: 200 },
+  keyFactCount: { min: 2, max: 5 }
+};
+
+// Share of the bottom's word pairs that may reappear in the surface before the twist counts as given away
+const MAX_BOTTOM_OVERLAP = 0.5;
+
+export interface PuzzleQualityResult {
+  puzzle: Puzzle | null; // The cleaned-up puzzle, or null when it must be regenerated
+  problems: string[];    // One readable message per failed check
+}
+
+const checkText = (value: unknown, field: string, limits: { min: number; max: number }, problems: string[]): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    problems.push(`${field} is missing`);
+    return '';
+  }
+  const text = value.trim();
+  if (text.length < limits.min || text.length > limits.max) {
+    problems.push(`${field} must be ${limits.min}-${limits.max} characters (got ${text.length})`);
+  }
+  return text;
+};
+
+const toWordPairs = (text: string): Set<string> => {
+  const tokens = tokenize(text);
+  const pairs = new Set<string>();
+  for (let i = 0; i < tokens.length - 1; i++) {
+    pairs.add(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+  return pairs;
+};
+
+// True when the surface retells the bottom, or states one of its key facts outright
+export const leaksBottom = (surface: string, bottom: string, keyFacts: string[] = []): boolean => {
+  const normalizedSurface = normalizeText(surface);
+  if (keyFacts.some(fact => normalizeText(fact).length > 0 && normalizedSurface.includes(normalizeText(fact)))) {
+    return true;
+  }
+  const bottomPairs = toWordPairs(bottom);
+  if (bottomPairs.size === 0) return false;
+  const surfacePairs = toWordPairs(surface);
+  let shared = 0;
+  bottomPairs.forEach(pair => {
+    if (surfacePairs.has(pair)) shared++;
+  });
+  return shared / bottomPairs.size > MAX_BOTTOM_OVERLAP;
+};
+
+// Title reuse is left to the similarity index, which treats a played title as a full match
+export const checkPuzzleQuality = (candidate: unknown, difficulty: Difficulty): PuzzleQualityResult => {
+  if (!candidate || typeof candidate !== 'object') {
+    return { puzzle: null, problems: ['puzzle is not an object'] };
+  }
+  const data = candidate as Record<string, unknown>;
+  const problems: string[] = [];
+
+  const title = checkText(data['title'], 'title', LIMITS.title, problems);
+  const surface = checkText(data['surface'], 'surface', LIMITS.surface, problems);
+  const bottom = checkText(data['bottom'], 'bottom', LIMITS.bottom, problems);
+
+  // The generation schema has no difficulty field, so a missing one is filled in; a different one is not
+  if (data['difficulty'] !== undefined && data['difficulty'] !== difficulty) {
+    problems.push(`difficulty is ${String(data['difficulty'])}, expected ${difficulty}`);
+  }
+
+  const rawFacts = data['keyFacts'];
+  let keyFacts: string[] = [];
+  if (!Array.isArray(rawFacts)) {
+    problems.push('keyFacts is missing');
+  } else {
+    keyFacts = rawFacts.map((fact, i) => checkText(fact, `keyFacts[${i + 1}]`, LIMITS.keyFact, problems));
+    if (keyFacts.length < LIMITS.keyFactCount.min || keyFacts.length > LIMITS.keyFactCount.max) {
+      problems.push(`keyFacts must hold ${LIMITS.keyFactCount.min}-${LIMITS.keyFactCount.max} facts (got ${keyFacts.length})`);
+    }
+  }
+
+  if (surface && bottom && leaksBottom(surface, bottom, keyFacts)) {
+    problems.push('surface gives away the bottom');
+  }
+
+  if (problems.length > 0) {
+    return { puzzle: null, problems };
+  }
+  return { puzzle: { title, surface, bottom, difficulty, keyFacts }, problems };
+};
@@ -0,0 +1,105 @@
+import { PlayedPuzzle } from "./types";
+import { normalizeText, tokenize } from "./textMatching";
+
+// Local near-duplicate detection over played puzzles, so the oracle prompt no longer has to carry the whole archive
+
+interface PuzzleFingerprint {
+  title: string;
+  normalizedTitle: string;
+  shingles: Set<string>;
+}
+
+export interface SimilarityMatch {
+  title: string; // The played puzzle the candidate resembles
+  score: number; // Jaccard similarity of the two fingerprints, 0..1
+}
+
+// Two riddles sharing this much of their content words and word pairs tell the same story
+export const SIMILARITY_THRESHOLD = 0.2;
+
+const MAX_THEMES = 8;
+
+// Story filler that says nothing about what a riddle is about
+const THEME_IGNORE = new Set([
+  'never', 'once', 'every', 'only', 'yet', 'but', 'not', 'who', 'what', 'when', 'why', 'how', 'which',
+  'one', 'two', 'three', 'day', 'night', 'year', 'time', 'after', 'before', 'because', 'would', 'could',
+  'into', 'out', 'all', 'no', 'so', 'then', 'than', 'very', 'also', 'same', 'found', 'became', 'made',
+  'left', 'stood', 'remain', 'took', 'came', 'went', 'each', 'many', 'ever', 'still', 'without', 'long',
+  'later', 'first', 'last', 'other', 'perform', 'single'
+]);
+
+// Content words plus adjacent word pairs: single words catch the theme, pairs catch a retold plot
+const toShingles = (text: string): Set<string> => {
+  const tokens = tokenize(text);
+  const shingles = new Set(tokens);
+  for (let i = 0; i < tokens.length - 1; i++) {
+    shingles.add(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+  return shingles;
+};
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(shingle => {
+    if (b.has(shingle)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+const fingerprint = (puzzle: PlayedPuzzle): PuzzleFingerprint => ({
+  title: puzzle.title,
+  normalizedTitle: normalizeText(puzzle.title),
+  shingles: toShingles(`${puzzle.surface} ${puzzle.bottom}`)
+});
+
+export interface SimilarityIndex {
+  add: (puzzle: PlayedPuzzle) => void;
+  findClosest: (puzzle: PlayedPuzzle) => SimilarityMatch | null;
+  findDuplicate: (puzzle: PlayedPuzzle, threshold?: number) => SimilarityMatch | null;
+}
+
+export const createSimilarityIndex = (puzzles: PlayedPuzzle[] = []): SimilarityIndex => {
+  const fingerprints = puzzles.map(fingerprint);
+
+  // The closest played puzzle; a reused title always counts as a full match
+  const findClosest = (puzzle: PlayedPuzzle): SimilarityMatch | null => {
+    const candidate = fingerprint(puzzle);
+    let closest: SimilarityMatch | null = null;
+    for (const played of fingerprints) {
+      const score = played.normalizedTitle === candidate.normalizedTitle ? 1 : jaccard(played.shingles, candidate.shingles);
+      if (!closest || score > closest.score) closest = { title: played.title, score };
+    }
+    return closest;
+  };
+
+  return {
+    add: (puzzle) => {
+      fingerprints.push(fingerprint(puzzle));
+    },
+    findClosest,
+    // The closest played puzzle, only when it is too close to count as a new riddle
+    findDuplicate: (puzzle, threshold = SIMILARITY_THRESHOLD) => {
+      const closest = findClosest(puzzle);
+      return closest && closest.score >= threshold ? closest : null;
+    }
+  };
+};
+
+// Words that keep coming back across played puzzles, most frequent first, for a compact "steer clear" line in the prompt
+export const summarizeOverusedThemes = (puzzles: PlayedPuzzle[], limit: number = MAX_THEMES): string[] => {
+  const puzzleCounts = new Map<string, number>();
+  puzzles.forEach(puzzle => {
+    const themes = new Set(
+      tokenize(`${puzzle.title} ${puzzle.surface} ${puzzle.bottom}`)
+        .filter(word => word.length >= 4 && !THEME_IGNORE.has(word))
+    );
+    themes.forEach(word => puzzleCounts.set(word, (puzzleCounts.get(word) ?? 0) + 1));
+  });
+
+  return Array.from(puzzleCounts.entries())
+    .filter(([, count]) => count >= 2)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([word]) => word);
+};
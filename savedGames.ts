@@ -0,0 +1,184 @@
+import { CaseFile, CaseScore, HistoryEntry, Interaction, PlayerProfile, TokenUsage } from "./types";
+import { VerdictCache, buildVerdictCache } from "./verdictCache";
+import { emptyUsage, isTokenUsage } from "./usage";
+
+// The shapes the game keeps between visits (the archive of finished cases, the save slots of unfinished ones, the
+// player's settings and the detective profiles), and their validation
+
+// One unfinished case, saved in its own slot
+export interface SavedSession {
+  slotId: string; // The case's game master session id
+  name: string;   // Shown in the Continue list; the case title unless the player renamed it
+  currentCase: CaseFile;
+  history: Interaction[];
+  input: string; // The unsent draft
+  hintsRemaining: number;
+  hintIndex: number;
+  verdictCache: VerdictCache;
+  caseUsage: TokenUsage;
+  timestamp: number; // Last saved
+}
+
+export interface PlayerSettings {
+  slotExpiryHours: number | null; // Slots untouched for longer are dropped; null keeps them as long as the game master does
+  packOnly: boolean;              // Draw new cases from the installed puzzle packs only
+}
+
+export const DEFAULT_PLAYER_SETTINGS: PlayerSettings = { slotExpiryHours: 24, packOnly: false };
+
+export interface PlayerProfiles {
+  profiles: PlayerProfile[];
+  activeProfileId: string | null; // Whose name goes on the cases archived next
+}
+
+export const EMPTY_PLAYER_PROFILES: PlayerProfiles = { profiles: [], activeProfileId: null };
+
+// Days (YYYY-MM-DD) whose daily case has been opened, oldest first; only the latest few can still be played
+export const MAX_DAILY_ATTEMPTS = 30;
+
+const INTERACTION_TYPES = ['question', 'guess', 'hint'];
+
+export const isInteraction = (value: any): value is Interaction => {
+  return (
+    value &&
+    typeof value === 'object' &&
+    INTERACTION_TYPES.includes(value.type) &&
+    typeof value.content === 'string' &&
+    typeof value.response === 'string' &&
+    (value.timestamp === undefined || typeof value.timestamp === 'number')
+  );
+};
+
+const SCORE_FIELDS: (keyof CaseScore)[] = ['total', 'base', 'inquiryPenalty', 'hintPenalty', 'wrongGuessPenalty', 'timePenalty', 'activeMs'];
+
+export const isCaseScore = (value: any): value is CaseScore => {
+  return value && typeof value === 'object' && SCORE_FIELDS.every(field => typeof value[field] === 'number');
+};
+
+// Data validation functions
+export const validateHistoryEntry = (entry: any): entry is HistoryEntry => {
+  return (
+    entry &&
+    typeof entry === 'object' &&
+    typeof entry.id === 'string' &&
+    typeof entry.timestamp === 'number' &&
+    entry.timestamp > 0 &&
+    entry.puzzle &&
+    typeof entry.puzzle.title === 'string' &&
+    typeof entry.puzzle.surface === 'string' &&
+    typeof entry.puzzle.bottom === 'string' &&
+    ['Easy', 'Medium', 'Hard'].includes(entry.puzzle.difficulty) &&
+    typeof entry.interactionsCount === 'number' &&
+    typeof entry.hintsUsed === 'number' &&
+    (entry.nearMisses === undefined || typeof entry.nearMisses === 'number') &&
+    (entry.usage === undefined || isTokenUsage(entry.usage)) &&
+    (entry.transcript === undefined || (Array.isArray(entry.transcript) && entry.transcript.every(isInteraction))) &&
+    (entry.startedAt === undefined || typeof entry.startedAt === 'number') &&
+    (entry.score === undefined || isCaseScore(entry.score)) &&
+    (entry.playerId === undefined || typeof entry.playerId === 'string') &&
+    (entry.playerName === undefined || typeof entry.playerName === 'string') &&
+    (entry.daily === undefined || typeof entry.daily === 'string') &&
+    ['Solved', 'Surrendered'].includes(entry.status)
+  );
+};
+
+export const validateSessionData = (data: any): boolean => {
+  return (
+    data &&
+    typeof data === 'object' &&
+    data.currentCase &&
+    typeof data.currentCase.sessionId === 'string' &&
+    typeof data.currentCase.title === 'string' &&
+    typeof data.currentCase.surface === 'string' &&
+    ['Easy', 'Medium', 'Hard'].includes(data.currentCase.difficulty) &&
+    (data.currentCase.daily === undefined || typeof data.currentCase.daily === 'string') &&
+    (data.name === undefined || typeof data.name === 'string') &&
+    Array.isArray(data.history) &&
+    typeof data.input === 'string' &&
+    typeof data.hintsRemaining === 'number' &&
+    typeof data.hintIndex === 'number' &&
+    typeof data.timestamp === 'number'
+  );
+};
+
+export const parseHistoryEntries = (value: unknown): HistoryEntry[] => {
+  if (!Array.isArray(value)) {
+    throw new Error('History data is not an array');
+  }
+
+  // Filter out invalid entries and keep only valid ones
+  const validEntries = value.filter(validateHistoryEntry);
+
+  // If we lost some entries, log a warning
+  if (validEntries.length < value.length) {
+    console.warn(`Filtered out ${value.length - validEntries.length} invalid history entries`);
+  }
+
+  return validEntries;
+};
+
+export const safeParseHistoryData = (jsonString: string): HistoryEntry[] => {
+  try {
+    return parseHistoryEntries(JSON.parse(jsonString));
+  } catch (error) {
+    console.error('Failed to parse history data:', error);
+    return [];
+  }
+};
+
+// Sessions saved before usage tracking or save slots existed get them zeroed or named
+export const parseSavedSession = (data: any): SavedSession | null => {
+  if (!validateSessionData(data)) {
+    console.warn('Dropping an invalid saved case');
+    return null;
+  }
+  const currentCase: CaseFile = { ...data.currentCase, openedAt: typeof data.currentCase.openedAt === 'number' ? data.currentCase.openedAt : data.timestamp };
+  return {
+    slotId: currentCase.sessionId,
+    name: data.name?.trim() || currentCase.title,
+    currentCase,
+    history: data.history.filter(isInteraction),
+    input: data.input,
+    hintsRemaining: data.hintsRemaining,
+    hintIndex: data.hintIndex,
+    verdictCache: buildVerdictCache(data.history), // Rebuilt rather than trusted, so saves keyed the old way are rekeyed
+    caseUsage: isTokenUsage(data.caseUsage) ? data.caseUsage : emptyUsage(),
+    timestamp: data.timestamp
+  };
+};
+
+// Records read back from storage are already parsed; anything that fails validation is left out
+export const parseSlots = (value: unknown): SavedSession[] => {
+  if (!Array.isArray(value)) return [];
+  return value.map(parseSavedSession).filter((session): session is SavedSession => session !== null);
+};
+
+export const parsePlayerSettings = (value: any): PlayerSettings => {
+  const expiry = value?.slotExpiryHours;
+  return {
+    slotExpiryHours: expiry === null || (typeof expiry === 'number' && expiry > 0) ? expiry : DEFAULT_PLAYER_SETTINGS.slotExpiryHours,
+    packOnly: typeof value?.packOnly === 'boolean' ? value.packOnly : DEFAULT_PLAYER_SETTINGS.packOnly
+  };
+};
+
+export const parseDailyAttempts = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((day): day is string => typeof day === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(day)).slice(-MAX_DAILY_ATTEMPTS);
+};
+
+const isPlayerProfile = (value: any): value is PlayerProfile => {
+  return (
+    value &&
+    typeof value === 'object' &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    value.name.trim().length > 0 &&
+    typeof value.createdAt === 'number'
+  );
+};
+
+export const parsePlayerProfiles = (value: any): PlayerProfiles => {
+  const profiles = Array.isArray(value?.profiles) ? value.profiles.filter(isPlayerProfile) : [];
+  const activeProfileId = profiles.some((profile: PlayerProfile) => profile.id === value?.activeProfileId) ? value.activeProfileId : null;
+  return { profiles, activeProfileId };
+};
@@ -0,0 +1,97 @@
+import { CaseScore, Difficulty, HistoryEntry, Interaction, PlayerProfile } from "./types";
+
+// Points for finished cases and the local leaderboard built from them
+
+export const HINT_BUDGETS: Record<Difficulty, number> = { Easy: 3, Medium: 5, Hard: 7 };
+
+const BASE_POINTS: Record<Difficulty, number> = { Easy: 1000, Medium: 2000, Hard: 3000 };
+const FREE_MINUTES: Record<Difficulty, number> = { Easy: 5, Medium: 10, Hard: 15 };
+
+// Penalties are shares of the base points, so every rank weighs them alike
+const INQUIRY_SHARE = 0.02;       // Per question asked
+const HINT_BUDGET_SHARE = 0.5;    // For spending the whole hint budget
+const INCORRECT_GUESS_SHARE = 0.1;
+const CLOSE_GUESS_SHARE = 0.05;
+const MINUTE_SHARE = 0.01;        // Per minute beyond the free time
+const MIN_SOLVED_SHARE = 0.1;     // A solve always beats a surrender
+const MAX_COUNTED_GAP_MS = 5 * 60 * 1000; // Longer pauses (a lunch break, a saved case) do not count
+
+// Time between the opening, each turn and the finish, with long pauses capped
+export const activeElapsedMs = (startedAt: number, transcript: Interaction[], finishedAt: number): number => {
+  let last = startedAt;
+  let total = 0;
+  [...transcript.flatMap(interaction => interaction.timestamp !== undefined ? [interaction.timestamp] : []), finishedAt].forEach(moment => {
+    total += Math.min(Math.max(0, moment - last), MAX_COUNTED_GAP_MS);
+    last = Math.max(last, moment);
+  });
+  return total;
+};
+
+export const scoreCase = (
+  difficulty: Difficulty,
+  status: HistoryEntry['status'],
+  transcript: Interaction[],
+  activeMs: number
+): CaseScore => {
+  const base = BASE_POINTS[difficulty];
+  const questions = transcript.filter(interaction => interaction.type === 'question' && !interaction.refused).length;
+  const hints = transcript.filter(interaction => interaction.type === 'hint').length;
+  const incorrect = transcript.filter(interaction => interaction.type === 'guess' && interaction.status === 'Incorrect').length;
+  const close = transcript.filter(interaction => interaction.type === 'guess' && interaction.status === 'Close').length;
+  const overtimeMinutes = Math.max(0, activeMs / 60000 - FREE_MINUTES[difficulty]);
+
+  const inquiryPenalty = Math.round(base * INQUIRY_SHARE * questions);
+  const hintPenalty = Math.round(base * HINT_BUDGET_SHARE * Math.min(1, hints / HINT_BUDGETS[difficulty]));
+  const wrongGuessPenalty = Math.round(base * (INCORRECT_GUESS_SHARE * incorrect + CLOSE_GUESS_SHARE * close));
+  const timePenalty = Math.round(base * MINUTE_SHARE * overtimeMinutes);
+  const earned = base - inquiryPenalty - hintPenalty - wrongGuessPenalty - timePenalty;
+
+  return {
+    total: status === 'Solved' ? Math.max(Math.round(base * MIN_SOLVED_SHARE), earned) : 0,
+    base,
+    inquiryPenalty,
+    hintPenalty,
+    wrongGuessPenalty,
+    timePenalty,
+    activeMs
+  };
+};
+
+export interface LeaderboardRow {
+  playerId: string | null; // null gathers the cases played without a profile
+  name: string;
+  cases: number;           // Scored cases
+  solved: number;
+  totalScore: number;
+  bestScore: number;
+  averageScore: number;
+}
+
+export const UNNAMED_DETECTIVE = 'Unnamed detective';
+
+// Highest total first; only cases archived with a score take part
+export const buildLeaderboard = (entries: HistoryEntry[], profiles: PlayerProfile[]): LeaderboardRow[] => {
+  const rows = new Map<string | null, LeaderboardRow>();
+  entries.forEach(entry => {
+    if (!entry.score) return;
+    const playerId = entry.playerId ?? null;
+    const row = rows.get(playerId) ?? {
+      playerId,
+      name: profiles.find(profile => profile.id === playerId)?.name ?? entry.playerName ?? UNNAMED_DETECTIVE,
+      cases: 0,
+      solved: 0,
+      totalScore: 0,
+      bestScore: 0,
+      averageScore: 0
+    };
+    row.cases++;
+    if (entry.status === 'Solved') row.solved++;
+    row.totalScore += entry.score.total;
+    row.bestScore = Math.max(row.bestScore, entry.score.total);
+    row.averageScore = Math.round(row.totalScore / row.cases);
+    rows.set(playerId, row);
+  });
+  return Array.from(rows.values()).sort((a, b) => b.totalScore - a.totalScore || b.averageScore - a.averageScore);
+};
+
+export const formatScore = (points: number): string => points.toLocaleString('en-US');
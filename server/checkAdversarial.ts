@@ -0,0 +1,15 @@
+import { offlineOracle } from '../offlineOracle';
+import { createLeakyOracle, replayAdversarialSuite } from './adversarialSuite';
+
+// `npm run check:adversarial`: replays the adversarial suite offline, once as-is and once against a model that leaks
+const results = [
+  ...await replayAdversarialSuite(offlineOracle),
+  ...await replayAdversarialSuite(createLeakyOracle(offlineOracle))
+];
+
+const failed = results.filter(result => result.failures.length > 0);
+failed.forEach(result => {
+  console.error(`❌ [${result.oracle} ${result.difficulty}] ${result.input}: ${result.failures.join(', ')}`);
+});
+console.log(`🛡️ ${results.length - failed.length}/${results.length} adversarial checks held`);
+process.exitCode = failed.length > 0 ? 1 : 0;
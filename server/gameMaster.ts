@@ -0,0 +1,369 @@
+import { randomUUID } from 'crypto';
+import { BudgetStatus, CaseFile, CaseState, DailyUsage, Difficulty, Interaction, OracleCallOptions, PackSummary, PlayedPuzzle, Puzzle, PuzzlePack, RiddleOracle, TokenUsage } from '../types';
+import { pickDailyPuzzle, pickPackPuzzle, summarizePacks } from '../puzzlePacks';
+import { ModelCallError, isCancellation } from '../modelErrors';
+import { SimilarityMatch, createSimilarityIndex, summarizeOverusedThemes } from '../puzzleSimilarity';
+import { checkPuzzleQuality } from '../puzzleQuality';
+import { detectInjection, refuseInjection, sealOutgoing } from '../inputGuard';
+import { addUsage, emptyUsage } from '../usage';
+import { HINT_BUDGETS } from '../scoring';
+import { normalizeText } from '../textMatching';
+import { UsageLedger } from './usageLedger';
+import { GameSession, SessionStore } from './sessionStore';
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+const MAX_INPUT_LENGTH = 1500;
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_GENERATION_ATTEMPTS = 4; // Puzzles asked for before settling for the least familiar sound one
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Errors the HTTP layer turns into a status code and a message safe to show the player
+export class GameMasterError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'GameMasterError';
+    this.status = status;
+  }
+}
+
+export interface GameMasterOptions {
+  oracle: RiddleOracle;
+  packs: PuzzlePack[];
+  sessionTtlMs?: number;
+  selfCritique?: boolean; // Have the oracle review each generated puzzle before it is served
+  ledger?: UsageLedger;   // Daily usage of the shared key and the optional daily budget
+  store?: SessionStore;   // Where open cases survive restarts; memory only when absent
+}
+
+export interface StartCaseRequest {
+  difficulty: Difficulty;
+  played: PlayedPuzzle[]; // The player's archive, used to reject near-duplicates
+  packOnly: boolean;
+}
+
+export interface GameMaster {
+  oracleName: string;
+  caseTtlHours: number; // Open cases untouched for longer are forgotten, whatever the player's save slots say
+  getPackSummary: () => PackSummary[];
+  getUsage: () => { today: DailyUsage | null; budget: BudgetStatus };
+  startCase: (request: StartCaseRequest, signal?: AbortSignal) => Promise<CaseState>;
+  // day is the player's local date, YYYY-MM-DD. The game master has no player accounts, so the one attempt a day is
+  // kept by the player's saved games (the engine records each daily case it opens)
+  startDailyCase: (day: string) => CaseState;
+  getCase: (sessionId: string) => CaseState;
+  ask: (sessionId: string, question: string, signal?: AbortSignal) => Promise<{ interaction: Interaction; usage: TokenUsage }>;
+  guess: (sessionId: string, guess: string, signal?: AbortSignal) => Promise<{ interaction: Interaction; usage: TokenUsage; reveal?: Puzzle }>;
+  hint: (sessionId: string, signal?: AbortSignal) => Promise<{ interaction: Interaction; usage: TokenUsage; hintsRemaining: number }>;
+  surrender: (sessionId: string) => { reveal: Puzzle };
+  reveal: (sessionId: string) => { reveal: Puzzle };
+}
+
+const toCaseFile = (session: GameSession): CaseFile => ({
+  sessionId: session.id,
+  title: session.puzzle.title,
+  surface: session.puzzle.surface,
+  difficulty: session.puzzle.difficulty,
+  keyFactCount: session.puzzle.keyFacts?.length ?? 0,
+  openedAt: session.openedAt,
+  ...(session.daily ? { daily: session.daily } : {})
+});
+
+const toCaseState = (session: GameSession): CaseState => ({
+  caseFile: toCaseFile(session),
+  history: session.history,
+  hintsRemaining: session.hintsRemaining,
+  hintIndex: session.hintIndex,
+  finished: session.finished,
+  usage: session.usage
+});
+
+// Players sit in every time zone, so a day on either side of the server's UTC date is accepted; later days are not
+// open yet, which keeps tomorrow's case from being peeked at
+const requireDailyDay = (value: unknown): string => {
+  const opensAt = typeof value === 'string' && DAY_PATTERN.test(value) ? Date.parse(`${value}T00:00:00Z`) : NaN;
+  if (Number.isNaN(opensAt)) {
+    throw new GameMasterError('day must be a date in the form YYYY-MM-DD', 400);
+  }
+  const today = Date.parse(`${new Date().toISOString().slice(0, 10)}T00:00:00Z`);
+  if (Math.abs(opensAt - today) > DAY_MS) {
+    throw new GameMasterError(`The daily case for ${value} is not open`, 400);
+  }
+  return value as string;
+};
+
+const requireText = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new GameMasterError(`${field} must be a non-empty string`, 400);
+  }
+  if (value.length > MAX_INPUT_LENGTH) {
+    throw new GameMasterError(`${field} must be at most ${MAX_INPUT_LENGTH} characters`, 400);
+  }
+  return value;
+};
+
+// Holds every open case server-side: the bottom only leaves through surrender, reveal or a correct guess
+export const createGameMaster = (options: GameMasterOptions): GameMaster => {
+  const { oracle, packs } = options;
+  const sessionTtlMs = options.sessionTtlMs ?? SESSION_TTL_MS;
+  const selfCritique = options.selfCritique ?? false;
+  const store = options.store;
+  const sessions = new Map((store?.load() ?? []).map(session => [session.id, session]));
+  const ledger = options.ledger;
+
+  const persist = () => store?.save([...sessions.values()]);
+
+  // Oracle options that add each call's usage to the case and to the daily ledger
+  const callOptions = (target: { usage: TokenUsage }, difficulty: Difficulty, signal?: AbortSignal): OracleCallOptions => ({
+    ...(signal ? { signal } : {}),
+    onUsage: (usage, operation) => {
+      target.usage = addUsage(target.usage, usage);
+      ledger?.record(usage, operation, difficulty);
+    }
+  });
+
+  const pruneExpiredSessions = () => {
+    const cutoff = Date.now() - sessionTtlMs;
+    sessions.forEach((session, id) => {
+      if (session.updatedAt < cutoff) sessions.delete(id);
+    });
+    persist();
+  };
+
+  const getSession = (sessionId: string): GameSession => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      throw new GameMasterError('This case is no longer open. Start a new case.', 404);
+    }
+    session.updatedAt = Date.now();
+    persist();
+    return session;
+  };
+
+  const getOpenSession = (sessionId: string): GameSession => {
+    const session = getSession(sessionId);
+    if (session.finished) {
+      throw new GameMasterError('This case is already closed.', 409);
+    }
+    return session;
+  };
+
+  // An answer that arrives after the player cancelled, or after the case closed, is dropped
+  const ensureStillWanted = (session: GameSession | null, signal?: AbortSignal) => {
+    if (signal?.aborted) {
+      throw new ModelCallError('cancelled', 'The request was cancelled before the oracle answered');
+    }
+    if (session?.finished) {
+      throw new GameMasterError('This case closed while the oracle was answering.', 409);
+    }
+  };
+
+  // The optional model self-critique; a critique that fails to arrive does not hold the case back
+  const critique = async (puzzle: Puzzle, options: OracleCallOptions): Promise<string[]> => {
+    if (!selfCritique || !oracle.critiquePuzzle) return [];
+    try {
+      const review = await oracle.critiquePuzzle(puzzle, options);
+      return [
+        ...(review.solvable ? [] : ['not solvable from yes/no questions']),
+        ...(review.matchesDifficulty ? [] : [`does not read as ${puzzle.difficulty}`]),
+        ...(review.solvable && review.matchesDifficulty ? [] : review.problems)
+      ];
+    } catch (error) {
+      if (isCancellation(error)) throw error;
+      console.warn('⚠️ Puzzle self-critique failed, serving the puzzle unreviewed:', error);
+      return [];
+    }
+  };
+
+  // Asks the oracle again while the new puzzle fails the quality gate or retells one the player has already played
+  const generateFreshPuzzle = async (request: StartCaseRequest, draft: { usage: TokenUsage }, signal?: AbortSignal): Promise<Puzzle> => {
+    const options = callOptions(draft, request.difficulty, signal);
+    const index = createSimilarityIndex(request.played);
+    const avoid = {
+      playedTitles: request.played.map(played => played.title),
+      overusedThemes: summarizeOverusedThemes(request.played)
+    };
+
+    const playedTitles = new Set(request.played.map(played => normalizeText(played.title)));
+    let leastFamiliar: { puzzle: Puzzle; match: SimilarityMatch } | null = null;
+    for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+      const candidate = await oracle.generateNewPuzzle(request.difficulty, avoid, options);
+      ensureStillWanted(null, signal);
+
+      const { puzzle, problems } = checkPuzzleQuality(candidate, request.difficulty);
+      const critiqueProblems = puzzle ? await critique(puzzle, options) : [];
+      ensureStillWanted(null, signal);
+      if (!puzzle || critiqueProblems.length > 0) {
+        console.log(`🧐 Rejected a generated puzzle (attempt ${attempt}/${MAX_GENERATION_ATTEMPTS}): ${[...problems, ...critiqueProblems].join('; ')}`);
+        continue;
+      }
+
+      const match = index.findDuplicate(puzzle);
+      if (!match) return puzzle;
+
+      console.log(`♻️ Rejected "${puzzle.title}" (attempt ${attempt}/${MAX_GENERATION_ATTEMPTS}): too close to "${match.title}" (${match.score.toFixed(2)})`);
+      // A reused title is never served, however the rest of the puzzle compares
+      const titleIsNew = !playedTitles.has(normalizeText(puzzle.title));
+      if (titleIsNew && (!leastFamiliar || match.score < leastFamiliar.match.score)) leastFamiliar = { puzzle, match };
+      index.add(puzzle);
+      avoid.playedTitles = [...avoid.playedTitles, puzzle.title];
+    }
+
+    // A sound but familiar puzzle under a new title beats no case at all (the offline catalogue is small)
+    if (leastFamiliar) {
+      console.warn(`⚠️ No fresh puzzle after ${MAX_GENERATION_ATTEMPTS} attempts; using the least familiar one`);
+      return leastFamiliar.puzzle;
+    }
+    throw new GameMasterError(`The oracle could not produce a sound case in ${MAX_GENERATION_ATTEMPTS} attempts. Please try again.`, 502);
+  };
+
+  // Injection attempts get an in-character refusal; everything else goes to the oracle and comes back sealed
+  const judge = async (session: GameSession, userInput: string, isGuess: boolean, signal?: AbortSignal): Promise<Interaction> => {
+    const injection = detectInjection(userInput);
+    if (injection) {
+      console.warn(`🛡️ Refused ${isGuess ? 'guess' : 'question'} on ${session.id} (${injection})`);
+      return refuseInjection(userInput, isGuess);
+    }
+    const interaction = await oracle.evaluateInteraction(session.puzzle, session.history, userInput, isGuess, callOptions(session, session.puzzle.difficulty, signal));
+    return sealOutgoing(interaction, session.puzzle);
+  };
+
+  // Appends a turn to the case's log, stamped with the time it was answered
+  const record = (session: GameSession, interaction: Interaction): Interaction => {
+    const stamped = { ...interaction, timestamp: Date.now() };
+    session.history = [...session.history, stamped];
+    persist();
+    return stamped;
+  };
+
+  const closeSession = (session: GameSession): { reveal: Puzzle } => {
+    session.finished = true;
+    persist();
+    return { reveal: session.puzzle };
+  };
+
+  // Cases already open may finish; only new ones wait for tomorrow's budget
+  const admitNewCase = () => {
+    const budget = ledger?.budget();
+    if (budget?.state === 'exhausted') {
+      throw new GameMasterError(`Today's oracle budget of ${budget.limitTokens} tokens is spent. New cases open again tomorrow.`, 429);
+    }
+    pruneExpiredSessions();
+  };
+
+  const openSession = (puzzle: Puzzle, usage: TokenUsage, daily?: string): GameSession => {
+    const session: GameSession = {
+      id: randomUUID(),
+      puzzle,
+      history: [],
+      hintIndex: 0,
+      hintsRemaining: HINT_BUDGETS[puzzle.difficulty],
+      finished: false,
+      usage,
+      openedAt: Date.now(),
+      updatedAt: Date.now(),
+      ...(daily ? { daily } : {})
+    };
+    sessions.set(session.id, session);
+    persist();
+    console.log(`📜 Opened ${daily ? `the daily case for ${daily}` : 'case'} "${puzzle.title}" (${puzzle.difficulty}) as ${session.id}`);
+    return session;
+  };
+
+  return {
+    oracleName: oracle.name,
+
+    caseTtlHours: sessionTtlMs / (60 * 60 * 1000),
+
+    getPackSummary: () => summarizePacks(packs),
+
+    getUsage: () => ({
+      today: ledger ? ledger.today() : null,
+      budget: ledger ? ledger.budget() : { limitTokens: null, usedTokens: 0, state: 'ok' }
+    }),
+
+    startCase: async (request, signal) => {
+      if (!DIFFICULTIES.includes(request.difficulty)) {
+        throw new GameMasterError(`difficulty must be one of ${DIFFICULTIES.join(', ')}`, 400);
+      }
+      admitNewCase();
+
+      const draft = { usage: emptyUsage() };
+      let puzzle: Puzzle;
+      if (request.packOnly) {
+        try {
+          puzzle = pickPackPuzzle(packs, request.difficulty, request.played.map(played => played.title));
+        } catch (error) {
+          throw new GameMasterError(error instanceof Error ? error.message : String(error), 404);
+        }
+      } else {
+        puzzle = await generateFreshPuzzle(request, draft, signal);
+      }
+
+      return toCaseState(openSession(puzzle, draft.usage));
+    },
+
+    startDailyCase: (day) => {
+      const daily = requireDailyDay(day);
+      admitNewCase();
+      let puzzle: Puzzle;
+      try {
+        puzzle = pickDailyPuzzle(packs, daily);
+      } catch (error) {
+        throw new GameMasterError(error instanceof Error ? error.message : String(error), 404);
+      }
+      return toCaseState(openSession(puzzle, emptyUsage(), daily));
+    },
+
+    getCase: (sessionId) => toCaseState(getSession(sessionId)),
+
+    ask: async (sessionId, question, signal) => {
+      const session = getOpenSession(sessionId);
+      const verdict = await judge(session, requireText(question, 'question'), false, signal);
+      ensureStillWanted(session, signal);
+      return { interaction: record(session, verdict), usage: session.usage };
+    },
+
+    guess: async (sessionId, guess, signal) => {
+      const session = getOpenSession(sessionId);
+      const verdict = await judge(session, requireText(guess, 'guess'), true, signal);
+      ensureStillWanted(session, signal);
+      const interaction = record(session, verdict);
+      return interaction.status === 'Correct'
+        ? { interaction, usage: session.usage, ...closeSession(session) }
+        : { interaction, usage: session.usage };
+    },
+
+    hint: async (sessionId, signal) => {
+      const session = getOpenSession(sessionId);
+      if (session.hintsRemaining <= 0) {
+        throw new GameMasterError('No hints remain for this case.', 409);
+      }
+      const hintIndex = session.hintIndex + 1;
+      const hintText = await oracle.generateHint(session.puzzle, session.history, hintIndex, callOptions(session, session.puzzle.difficulty, signal));
+      ensureStillWanted(session, signal);
+      const interaction = record(session, sealOutgoing({
+        type: 'hint',
+        content: `Seek Clue (#${hintIndex})`,
+        response: hintText,
+        status: 'Clue'
+      }, session.puzzle));
+      session.hintIndex = hintIndex;
+      session.hintsRemaining -= 1;
+      persist();
+      return { interaction, usage: session.usage, hintsRemaining: session.hintsRemaining };
+    },
+
+    surrender: (sessionId) => closeSession(getOpenSession(sessionId)),
+
+    reveal: (sessionId) => {
+      const session = getSession(sessionId);
+      if (!session.finished) {
+        throw new GameMasterError('The truth stays sealed until the case is solved or surrendered.', 403);
+      }
+      return { reveal: session.puzzle };
+    }
+  };
+};
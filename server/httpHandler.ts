@@ -0,0 +1,182 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { GameMaster, GameMasterError } from './gameMaster';
+import { RoutingSettings } from './routingStore';
+import { MODEL_ERROR_DESCRIPTIONS, classifyModelError } from '../modelErrors';
+import { PlayedPuzzle } from '../types';
+
+const MAX_BODY_BYTES = 256 * 1024; // Room for a full archive of played puzzles
+
+type Next = () => void;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<any> => {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new GameMasterError('Request body is too large', 413));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (chunks.length === 0) {
+        resolve({});
+        return;
+      }
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      } catch {
+        reject(new GameMasterError('Request body is not valid JSON', 400));
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+const toPlayedPuzzles = (value: unknown): PlayedPuzzle[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is PlayedPuzzle => (
+      item && typeof item.title === 'string' && typeof item.surface === 'string' && typeof item.bottom === 'string'
+    ))
+    .map(({ title, surface, bottom }) => ({ title, surface, bottom }));
+};
+
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+// Settings that change the server for everyone are only taken from the machine it runs on: the connection must come
+// from loopback, not through a proxy, and a browser's page must be served by this same host
+const isLocalRequest = (req: IncomingMessage): boolean => {
+  if (!LOOPBACK_ADDRESSES.includes(req.socket.remoteAddress ?? '')) return false;
+  if (req.headers['x-forwarded-for'] !== undefined || req.headers['forwarded'] !== undefined) return false;
+  const origin = req.headers['origin'];
+  if (origin === undefined) return true;
+  try {
+    return new URL(origin).host === req.headers['host'];
+  } catch {
+    return false;
+  }
+};
+
+const CASE_ROUTE = /^\/api\/cases\/([\w-]+)(?:\/(ask|guess|hint|surrender|reveal))?$/;
+
+// Node/Connect-style handler: serves /api/* and passes every other request on (or 404s when standalone)
+export const createGameMasterHandler = (gameMaster: GameMaster, routing?: RoutingSettings) => {
+  return async (req: IncomingMessage, res: ServerResponse, next?: Next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (!url.pathname.startsWith('/api/')) {
+      if (next) next();
+      else sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    // Cancel the oracle work when the browser gives up on this request (navigated away, new case, timeout)
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+    const { signal } = controller;
+
+    try {
+      const method = req.method ?? 'GET';
+
+      if (url.pathname === '/api/status' && method === 'GET') {
+        sendJson(res, 200, { oracle: gameMaster.oracleName, caseTtlHours: gameMaster.caseTtlHours });
+        return;
+      }
+      if (url.pathname === '/api/routing' && routing) {
+        if (method === 'GET') {
+          sendJson(res, 200, { routing: routing.get() });
+          return;
+        }
+        if (method === 'PUT') {
+          if (!isLocalRequest(req)) {
+            throw new GameMasterError('Model routing can only be changed on the machine running the game server', 403);
+          }
+          sendJson(res, 200, { routing: routing.update(await readJsonBody(req)) });
+          return;
+        }
+      }
+      if (url.pathname === '/api/usage' && method === 'GET') {
+        sendJson(res, 200, gameMaster.getUsage());
+        return;
+      }
+      if (url.pathname === '/api/packs' && method === 'GET') {
+        sendJson(res, 200, { packs: gameMaster.getPackSummary() });
+        return;
+      }
+      if (url.pathname === '/api/cases' && method === 'POST') {
+        const body = await readJsonBody(req);
+        const caseState = await gameMaster.startCase({
+          difficulty: body.difficulty,
+          played: toPlayedPuzzles(body.played),
+          packOnly: body.packOnly === true
+        }, signal);
+        sendJson(res, 201, caseState);
+        return;
+      }
+      if (url.pathname === '/api/daily' && method === 'POST') {
+        const body = await readJsonBody(req);
+        sendJson(res, 201, gameMaster.startDailyCase(body.day));
+        return;
+      }
+
+      const match = CASE_ROUTE.exec(url.pathname);
+      if (match) {
+        const sessionId = match[1]!;
+        const action = match[2];
+        if (!action && method === 'GET') {
+          sendJson(res, 200, gameMaster.getCase(sessionId));
+          return;
+        }
+        if (action === 'reveal' && method === 'GET') {
+          sendJson(res, 200, gameMaster.reveal(sessionId));
+          return;
+        }
+        if (method === 'POST') {
+          const body = await readJsonBody(req);
+          switch (action) {
+            case 'ask':
+              sendJson(res, 200, await gameMaster.ask(sessionId, body.question, signal));
+              return;
+            case 'guess':
+              sendJson(res, 200, await gameMaster.guess(sessionId, body.guess, signal));
+              return;
+            case 'hint':
+              sendJson(res, 200, await gameMaster.hint(sessionId, signal));
+              return;
+            case 'surrender':
+              sendJson(res, 200, gameMaster.surrender(sessionId));
+              return;
+          }
+        }
+      }
+
+      sendJson(res, 404, { error: `No route for ${method} ${url.pathname}` });
+    } catch (error) {
+      if (signal.aborted) {
+        // Nobody is listening any more
+        return;
+      }
+      if (error instanceof GameMasterError) {
+        sendJson(res, error.status, { error: error.message });
+        return;
+      }
+      // Model failures reach the player as their class, with advice on whether retrying helps
+      const kind = classifyModelError(error);
+      const description = MODEL_ERROR_DESCRIPTIONS[kind];
+      console.error(`❌ Game master request failed (${kind}):`, error instanceof Error ? error.message : String(error));
+      sendJson(res, description.httpStatus, { error: description.message, kind, retryable: description.retryable });
+    }
+  };
+};
@@ -0,0 +1,20 @@
+import http from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { loadEnv } from 'vite';
+import { createDefaultGameMaster, createDefaultRoutingSettings } from './setup';
+import { createGameMasterHandler } from './httpHandler';
+
+// Standalone game server: `npm run server`. The dev server mounts the same handler (see vite.config.ts).
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const env = loadEnv(process.env['NODE_ENV'] ?? 'development', rootDir, '');
+Object.entries(env).forEach(([key, value]) => {
+  if (process.env[key] === undefined) process.env[key] = value;
+});
+
+const port = Number(process.env['GAME_SERVER_PORT'] ?? 3001);
+const handler = createGameMasterHandler(createDefaultGameMaster(rootDir), createDefaultRoutingSettings(rootDir));
+
+http.createServer((req, res) => { void handler(req, res); }).listen(port, () => {
+  console.log(`🏰 Game master listening on http://localhost:${port}`);
+});
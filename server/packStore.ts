@@ -0,0 +1,22 @@
+import fs from 'fs';
+import path from 'path';
+import { PackValidationResult, validatePuzzlePack } from '../puzzlePacks';
+
+// Packs in the packs/ directory are the "installed" packs; they stay on the server with their bottoms
+export const loadInstalledPacks = (packsDir: string): PackValidationResult[] => {
+  if (!fs.existsSync(packsDir)) {
+    return [];
+  }
+  return fs.readdirSync(packsDir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const source = path.join('packs', file);
+      try {
+        return validatePuzzlePack(JSON.parse(fs.readFileSync(path.join(packsDir, file), 'utf-8')), source);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { pack: null, errors: [`${source}: could not be read as JSON (${message})`] };
+      }
+    });
+};
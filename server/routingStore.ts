@@ -0,0 +1,37 @@
+import fs from 'fs';
+import { DEFAULT_MODEL_ROUTING, ModelRoutingConfig, RoutingValidationResult, validateModelRouting } from '../modelRouting';
+import { getModelRouting, setModelRouting } from '../geminiService';
+import { GameMasterError } from './gameMaster';
+
+// The routing file is optional: without it every operation uses the built-in routes
+export const loadModelRouting = (filePath: string, source: string): RoutingValidationResult => {
+  if (!fs.existsSync(filePath)) {
+    return { config: DEFAULT_MODEL_ROUTING, errors: [] };
+  }
+  try {
+    return validateModelRouting(JSON.parse(fs.readFileSync(filePath, 'utf-8')), source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { config: null, errors: [`${source}: could not be read as JSON (${message})`] };
+  }
+};
+
+export interface RoutingSettings {
+  get: () => ModelRoutingConfig;
+  update: (data: unknown) => ModelRoutingConfig;
+}
+
+// Reads and replaces the live routing; the in-app settings save through here, back into the routing file
+export const createRoutingSettings = (filePath: string, source: string): RoutingSettings => ({
+  get: getModelRouting,
+  update: (data) => {
+    const { config, errors } = validateModelRouting(data, source);
+    if (!config) {
+      throw new GameMasterError(errors.join('; '), 400);
+    }
+    fs.writeFileSync(filePath, `${JSON.stringify(config, null, 2)}\n`, 'utf-8');
+    setModelRouting(config);
+    console.log(`🧭 Model routing updated and saved to ${source}`);
+    return config;
+  }
+});
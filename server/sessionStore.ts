@@ -0,0 +1,78 @@
+import fs from 'fs';
+import { Difficulty, Interaction, Puzzle, TokenUsage } from '../types';
+import { isInteraction } from '../savedGames';
+import { isTokenUsage } from '../usage';
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+export interface GameSession {
+  id: string;
+  puzzle: Puzzle;
+  history: Interaction[];
+  hintIndex: number;
+  hintsRemaining: number;
+  finished: boolean;
+  usage: TokenUsage; // Every model call made for this case, including rejected puzzle drafts
+  openedAt: number;
+  updatedAt: number;
+  daily?: string; // The day this daily case belongs to
+}
+
+export interface SessionStore {
+  load: () => GameSession[];
+  save: (sessions: GameSession[]) => void;
+}
+
+const isPuzzle = (value: any): value is Puzzle => {
+  return (
+    value &&
+    typeof value === 'object' &&
+    ['title', 'surface', 'bottom'].every(field => typeof value[field] === 'string' && value[field].trim()) &&
+    DIFFICULTIES.includes(value.difficulty) &&
+    (value.keyFacts === undefined || (Array.isArray(value.keyFacts) && value.keyFacts.every((fact: unknown) => typeof fact === 'string')))
+  );
+};
+
+const isGameSession = (value: any): value is GameSession => {
+  return (
+    value &&
+    typeof value === 'object' &&
+    typeof value.id === 'string' &&
+    isPuzzle(value.puzzle) &&
+    Array.isArray(value.history) && value.history.every(isInteraction) &&
+    ['hintIndex', 'hintsRemaining', 'openedAt', 'updatedAt'].every(field => typeof value[field] === 'number' && value[field] >= 0) &&
+    typeof value.finished === 'boolean' &&
+    isTokenUsage(value.usage) &&
+    (value.daily === undefined || typeof value.daily === 'string')
+  );
+};
+
+// Open cases, bottoms included, kept on the server's disk so a restart does not forget them; memory only without a file
+export const createSessionStore = (filePath?: string): SessionStore => ({
+  load: () => {
+    if (!filePath || !fs.existsSync(filePath)) return [];
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      if (!Array.isArray(data)) {
+        throw new Error('Open cases file is not an array');
+      }
+      const sessions = data.filter(isGameSession);
+      if (sessions.length < data.length) {
+        console.warn(`⚠️ Dropped ${data.length - sessions.length} invalid open case(s)`);
+      }
+      return sessions;
+    } catch (error) {
+      console.warn('⚠️ Could not read the open cases, starting with none:', error instanceof Error ? error.message : String(error));
+      return [];
+    }
+  },
+
+  save: (sessions) => {
+    if (!filePath) return;
+    try {
+      fs.writeFileSync(filePath, JSON.stringify(sessions), 'utf-8');
+    } catch (error) {
+      console.warn('⚠️ Could not save the open cases:', error instanceof Error ? error.message : String(error));
+    }
+  }
+});
@@ -0,0 +1,71 @@
+import path from 'path';
+import { getOracle } from '../oracle';
+import { readEnv } from '../env';
+import { loadInstalledPacks } from './packStore';
+import { GameMaster, createGameMaster } from './gameMaster';
+import { RoutingSettings, createRoutingSettings, loadModelRouting } from './routingStore';
+import { setModelRouting } from '../geminiService';
+import { UsageLedger, createUsageLedger } from './usageLedger';
+import { createSessionStore } from './sessionStore';
+
+// Wires the configured oracle and the installed packs into a game master
+export const createDefaultGameMaster = (rootDir: string): GameMaster => {
+  const packResults = loadInstalledPacks(path.join(rootDir, 'packs'));
+  packResults.flatMap(result => result.errors).forEach(packError => console.warn('📦 Puzzle pack problem:', packError));
+
+  // Vite ships every VITE_ setting to the browser, so a key under that name would be public
+  if (readEnv('VITE_GEMINI_API_KEY')) {
+    throw new Error('VITE_GEMINI_API_KEY is set, but VITE_ settings are exposed to the browser. Rename it to GEMINI_API_KEY.');
+  }
+  const oracle = getOracle();
+  console.log('🔮 Oracle provider:', oracle.name);
+
+  // Open cases are forgotten after this long without a move, whatever the player's save slots say
+  const caseTtlHours = readPositiveNumber('CASE_TTL_HOURS');
+  return createGameMaster({
+    oracle,
+    packs: packResults.flatMap(result => result.pack ? [result.pack] : []),
+    selfCritique: readEnv('PUZZLE_SELF_CRITIQUE') === 'true',
+    ledger: createDefaultUsageLedger(rootDir),
+    // Open cases survive restarts in open-cases.json, so a save slot is not lost with the server
+    store: createSessionStore(path.resolve(rootDir, readEnv('OPEN_CASES_FILE') ?? 'open-cases.json')),
+    ...(caseTtlHours !== undefined ? { sessionTtlMs: caseTtlHours * 60 * 60 * 1000 } : {})
+  });
+};
+
+const readPositiveNumber = (name: string): number | undefined => {
+  const raw = readEnv(name);
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} must be a positive number, got "${raw}"`);
+  }
+  return value;
+};
+
+// Daily usage survives restarts in usage-ledger.json; DAILY_TOKEN_BUDGET turns on the warning and the block
+const createDefaultUsageLedger = (rootDir: string): UsageLedger => {
+  const dailyTokenBudget = readPositiveNumber('DAILY_TOKEN_BUDGET');
+  const warnRatio = readPositiveNumber('DAILY_BUDGET_WARN_AT');
+  if (warnRatio !== undefined && warnRatio > 1) {
+    throw new Error(`DAILY_BUDGET_WARN_AT must be a share of the budget between 0 and 1, got ${warnRatio}`);
+  }
+  if (dailyTokenBudget !== undefined) console.log(`💰 Daily token budget: ${dailyTokenBudget}`);
+  return createUsageLedger({
+    filePath: path.resolve(rootDir, readEnv('USAGE_LEDGER_FILE') ?? 'usage-ledger.json'),
+    ...(dailyTokenBudget !== undefined ? { dailyTokenBudget } : {}),
+    ...(warnRatio !== undefined ? { warnRatio } : {})
+  });
+};
+
+// Validates the model routing file before the server takes any request; a broken file stops startup
+export const createDefaultRoutingSettings = (rootDir: string): RoutingSettings => {
+  const source = readEnv('MODEL_ROUTING_FILE') ?? 'model-routing.json';
+  const filePath = path.resolve(rootDir, source);
+  const { config, errors } = loadModelRouting(filePath, source);
+  if (!config) {
+    throw new Error(`Invalid model routing:\n${errors.map(routingError => `  - ${routingError}`).join('\n')}`);
+  }
+  setModelRouting(config);
+  return createRoutingSettings(filePath, source);
+};
@@ -0,0 +1,108 @@
+import fs from 'fs';
+import { BudgetStatus, DailyUsage, Difficulty, TokenUsage } from '../types';
+import { MODEL_OPERATIONS, ModelOperation } from '../modelRouting';
+import { addUsage, emptyUsage, isTokenUsage, toDayKey } from '../usage';
+
+const DAYS_KEPT = 30;
+const DEFAULT_WARN_RATIO = 0.8;
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+export interface UsageLedgerOptions {
+  filePath?: string;          // Where daily totals survive restarts; memory only when absent
+  dailyTokenBudget?: number;  // Tokens per day before new cases are refused
+  warnRatio?: number;         // Share of the budget after which players are warned
+}
+
+export interface UsageLedger {
+  record: (usage: TokenUsage, operation: ModelOperation, difficulty: Difficulty) => void;
+  today: () => DailyUsage;
+  budget: () => BudgetStatus;
+}
+
+const emptyDay = (day: string): DailyUsage => ({ day, total: emptyUsage(), byOperation: {}, byDifficulty: {} });
+
+// Keeps the breakdown entries with a known key and a well-formed total
+const parseBreakdown = <K extends string>(value: any, keys: K[]): Partial<Record<K, TokenUsage>> => {
+  if (!value || typeof value !== 'object') return {};
+  return Object.fromEntries(keys.filter(key => isTokenUsage(value[key])).map(key => [key, value[key]])) as Partial<Record<K, TokenUsage>>;
+};
+
+// A day written by an older build or edited by hand is dropped unless its date and total can be trusted
+const parseDay = (day: string, value: any): DailyUsage | null => {
+  if (!DAY_KEY_PATTERN.test(day) || !value || typeof value !== 'object' || value.day !== day || !isTokenUsage(value.total)) {
+    return null;
+  }
+  return {
+    day,
+    total: value.total,
+    byOperation: parseBreakdown(value.byOperation, MODEL_OPERATIONS),
+    byDifficulty: parseBreakdown(value.byDifficulty, DIFFICULTIES)
+  };
+};
+
+const loadDays = (filePath: string | undefined): Record<string, DailyUsage> => {
+  if (!filePath || !fs.existsSync(filePath)) return {};
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('Usage ledger is not an object of days');
+    }
+    const days: Record<string, DailyUsage> = {};
+    Object.entries(data).forEach(([day, value]) => {
+      const parsed = parseDay(day, value);
+      if (parsed) days[day] = parsed;
+    });
+    const dropped = Object.keys(data).length - Object.keys(days).length;
+    if (dropped > 0) {
+      console.warn(`⚠️ Dropped ${dropped} invalid day(s) from the usage ledger`);
+    }
+    return days;
+  } catch (error) {
+    console.warn('⚠️ Could not read the usage ledger, starting a fresh one:', error instanceof Error ? error.message : String(error));
+    return {};
+  }
+};
+
+// Daily model usage of the shared key, broken down by operation and difficulty, plus the optional daily budget
+export const createUsageLedger = (options: UsageLedgerOptions = {}): UsageLedger => {
+  const days = loadDays(options.filePath);
+  const warnRatio = options.warnRatio ?? DEFAULT_WARN_RATIO;
+
+  const getDay = (day: string): DailyUsage => {
+    days[day] ??= emptyDay(day);
+    return days[day]!;
+  };
+
+  const save = () => {
+    if (!options.filePath) return;
+    Object.keys(days).sort().slice(0, -DAYS_KEPT).forEach(day => delete days[day]);
+    try {
+      fs.writeFileSync(options.filePath, JSON.stringify(days), 'utf-8');
+    } catch (error) {
+      console.warn('⚠️ Could not save the usage ledger:', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const today = () => getDay(toDayKey(Date.now()));
+
+  return {
+    record: (usage, operation, difficulty) => {
+      const day = today();
+      day.total = addUsage(day.total, usage);
+      day.byOperation[operation] = addUsage(day.byOperation[operation] ?? emptyUsage(), usage);
+      day.byDifficulty[difficulty] = addUsage(day.byDifficulty[difficulty] ?? emptyUsage(), usage);
+      save();
+    },
+
+    today,
+
+    budget: () => {
+      const usedTokens = today().total.totalTokens;
+      const limitTokens = options.dailyTokenBudget ?? null;
+      if (limitTokens === null) return { limitTokens, usedTokens, state: 'ok' };
+      const state = usedTokens >= limitTokens ? 'exhausted' : usedTokens >= limitTokens * warnRatio ? 'warning' : 'ok';
+      return { limitTokens, usedTokens, state };
+    }
+  };
+};
@@ -0,0 +1,46 @@
+// Lightweight text helpers shared by the rule-based (offline) judging code and puzzle de-duplication
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'is', 'was', 'were', 'are', 'be', 'been', 'did', 'do', 'does',
+  'he', 'she', 'it', 'they', 'him', 'her', 'his', 'its', 'their', 'them',
+  'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'and', 'or',
+  'that', 'this', 'there', 'any', 'some', 'has', 'have', 'had', 'i', 'you'
+]);
+
+export const normalizeText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s']/g, ' ')
+    .replace(/'/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Very small suffix stripper so "statues", "melted" and "melting" line up with their roots
+export const stemWord = (word: string): string => {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+export const tokenize = (text: string): string[] => {
+  return normalizeText(text)
+    .split(' ')
+    .filter(word => word.length > 0 && !STOP_WORDS.has(word))
+    .map(stemWord);
+};
+
+// True when any of the terms (single words, stemmed the same way) appears in the tokens
+export const mentionsAny = (tokens: string[], terms: string[]): boolean => {
+  const tokenSet = new Set(tokens);
+  return terms.some(term => tokenSet.has(stemWord(normalizeText(term))));
+};
+
+// The original words of the text that match any of the terms, in order of appearance
+export const findMentionedWords = (text: string, terms: string[]): string[] => {
+  const stems = new Set(terms.map(term => stemWord(normalizeText(term))));
+  return normalizeText(text)
+    .split(' ')
+    .filter(word => word.length > 0 && stems.has(stemWord(word)));
+};
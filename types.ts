@@ -1,4 +1,6 @@
 
+import type { ModelOperation } from './modelRouting';
+
 export type Difficulty = 'Easy' | 'Medium' | 'Hard';
 
 export interface Puzzle {
@@ -6,13 +8,86 @@ export interface Puzzle {
   surface: string; // The "Surface" (riddle)
   bottom: string;  // The "Bottom" (solution)
   difficulty: Difficulty;
+  keyFacts?: string[]; // Atomic facts that together make up the bottom
+}
+
+// A hand-vetted puzzle shipped in a puzzle pack
+export interface PackPuzzle extends Puzzle {
+  tags: string[];
+  keyFacts: string[];
+}
+
+export interface PuzzlePack {
+  format: 'kingdom-secrets/puzzle-pack';
+  version: number;
+  id: string;
+  name: string;
+  description?: string;
+  puzzles: PackPuzzle[];
+}
+
+export interface PackSummary {
+  id: string;
+  name: string;
+  counts: Record<Difficulty, number>;
+}
+
+// What the browser knows about a case while it is open: never the bottom or the key facts
+export interface CaseFile {
+  sessionId: string;
+  title: string;
+  surface: string;
+  difficulty: Difficulty;
+  keyFactCount: number;
+  openedAt: number; // When the game master opened the case (ms since epoch)
+  daily?: string;   // The day (YYYY-MM-DD) when this is that day's daily case
 }
 
 export interface Interaction {
   type: 'question' | 'guess' | 'hint';
   content: string;
   response: string;
-  status?: 'Yes' | 'No' | 'Irrelevant' | 'Correct' | 'Incorrect' | 'Clue';
+  status?: 'Yes' | 'No' | 'Irrelevant' | 'Correct' | 'Close' | 'Incorrect' | 'Clue';
+  amends?: string; // Content of an earlier question whose ruling this answer overrides
+  matchedElements?: string[]; // Close guesses: parts of the truth the detective got right
+  missingElements?: string[]; // Close guesses: spoiler-free labels for what is still missing
+  factIndexes?: number[]; // Questions: zero-based indexes into puzzle.keyFacts that the answer touched
+  refused?: boolean; // Turned away by the input guard without consulting the oracle
+  cached?: boolean;  // Answered from the verdict cache of an earlier, equivalent question
+  timestamp?: number; // When the turn was recorded (ms since epoch); absent on turns saved before transcripts
+}
+
+// An open case as the game server reports it to the browser
+export interface CaseState {
+  caseFile: CaseFile;
+  usage: TokenUsage; // Everything the oracle has spent on this case so far, puzzle generation included
+  history: Interaction[];
+  hintsRemaining: number;
+  hintIndex: number;
+  finished: boolean;
+}
+
+// Model usage added up over one or more calls; cost is an estimate and stays 0 for models without pricing
+export interface TokenUsage {
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+// The game server's model usage for one day, across every player sharing its key
+export interface DailyUsage {
+  day: string; // YYYY-MM-DD in the server's local time
+  total: TokenUsage;
+  byOperation: Partial<Record<ModelOperation, TokenUsage>>;
+  byDifficulty: Partial<Record<Difficulty, TokenUsage>>;
+}
+
+export interface BudgetStatus {
+  limitTokens: number | null; // null when no daily budget is configured
+  usedTokens: number;
+  state: 'ok' | 'warning' | 'exhausted';
 }
 
 export interface HistoryEntry {
@@ -21,14 +96,73 @@ export interface HistoryEntry {
   puzzle: Puzzle;
   interactionsCount: number;
   hintsUsed: number;
+  nearMisses?: number; // Guesses judged Close; absent on entries saved before partial credit
+  usage?: TokenUsage;  // Model usage of the whole case; absent on entries saved before usage accounting
+  transcript?: Interaction[]; // The full inquiry log; absent on entries saved before transcripts
+  startedAt?: number;  // When the case was opened, for replaying the transcript's pace
+  score?: CaseScore;   // Absent on entries saved before scoring
+  playerId?: string;   // The profile that played the case; absent when nobody was signed in
+  playerName?: string; // That profile's name at the time, so imported archives keep their players
+  daily?: string;      // The day (YYYY-MM-DD) of a daily case
   status: 'Solved' | 'Surrendered';
 }
 
+// Points for a finished case: the difficulty's base points less each penalty (all penalties are positive numbers)
+export interface CaseScore {
+  total: number;
+  base: number;
+  inquiryPenalty: number;
+  hintPenalty: number;
+  wrongGuessPenalty: number;
+  timePenalty: number;
+  activeMs: number; // Time spent on the case, leaving out long pauses
+}
+
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
 export enum GameState {
   MENU = 'MENU',
   RULES = 'RULES',
   LOADING = 'LOADING',
   PLAYING = 'PLAYING',
   FINISHED = 'FINISHED',
-  HISTORY = 'HISTORY'
+  HISTORY = 'HISTORY',
+  STATS = 'STATS',
+  SETTINGS = 'SETTINGS'
+}
+
+// What a finished case contributes to de-duplication of new puzzles
+export type PlayedPuzzle = Pick<Puzzle, 'title' | 'surface' | 'bottom'>;
+
+// What a freshly generated puzzle should steer clear of
+export interface PuzzleAvoidance {
+  playedTitles: string[];   // Titles the player has already solved or surrendered
+  overusedThemes: string[]; // Words that keep recurring across the archive
+}
+
+// A model's own review of a generated puzzle
+export interface PuzzleCritique {
+  solvable: boolean;          // The bottom can be reached from the surface with yes/no questions
+  matchesDifficulty: boolean; // The twist fits the requested difficulty
+  problems: string[];         // Short reasons when either check fails
+}
+
+// Per-call controls every oracle operation accepts
+export interface OracleCallOptions {
+  signal?: AbortSignal; // Aborts the call (and any retries) when the player moves on
+  timeoutMs?: number;   // Limit for each attempt against the model
+  onUsage?: (usage: TokenUsage, operation: ModelOperation) => void; // Called after every model call that reports usage
+}
+
+// The three operations every riddle oracle (Gemini, offline, ...) must provide, plus an optional puzzle review
+export interface RiddleOracle {
+  name: string;
+  critiquePuzzle?: (puzzle: Puzzle, options?: OracleCallOptions) => Promise<PuzzleCritique>;
+  generateNewPuzzle: (difficulty: Difficulty, avoid: PuzzleAvoidance, options?: OracleCallOptions) => Promise<Puzzle>;
+  generateHint: (puzzle: Puzzle, history: Interaction[], hintIndex: number, options?: OracleCallOptions) => Promise<string>;
+  evaluateInteraction: (puzzle: Puzzle, history: Interaction[], userInput: string, isGuess: boolean, options?: OracleCallOptions) => Promise<Interaction>;
 }
@@ -0,0 +1,63 @@
+import { Difficulty, HistoryEntry, TokenUsage } from "./types";
+
+// Adding up model usage: per call on the server, per case on HistoryEntry, per difficulty and day in the Archives
+
+export const emptyUsage = (): TokenUsage => ({ calls: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 });
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  calls: a.calls + b.calls,
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  totalTokens: a.totalTokens + b.totalTokens,
+  costUsd: a.costUsd + b.costUsd
+});
+
+export const isTokenUsage = (value: any): value is TokenUsage => {
+  return (
+    value &&
+    typeof value === 'object' &&
+    ['calls', 'promptTokens', 'outputTokens', 'totalTokens', 'costUsd'].every(field => typeof value[field] === 'number' && value[field] >= 0)
+  );
+};
+
+// Local calendar day, so the Archives and the daily budget agree with the player's clock
+export const toDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const summarizeUsageByDifficulty = (entries: HistoryEntry[]): Record<Difficulty, TokenUsage> => {
+  const totals: Record<Difficulty, TokenUsage> = { Easy: emptyUsage(), Medium: emptyUsage(), Hard: emptyUsage() };
+  entries.forEach(entry => {
+    if (entry.usage) totals[entry.puzzle.difficulty] = addUsage(totals[entry.puzzle.difficulty], entry.usage);
+  });
+  return totals;
+};
+
+// Most recent day first
+export const summarizeUsageByDay = (entries: HistoryEntry[], days: number): { day: string; usage: TokenUsage }[] => {
+  const totals = new Map<string, TokenUsage>();
+  entries.forEach(entry => {
+    if (!entry.usage) return;
+    const day = toDayKey(entry.timestamp);
+    totals.set(day, addUsage(totals.get(day) ?? emptyUsage(), entry.usage));
+  });
+  return Array.from(totals.entries())
+    .sort((a, b) => b[0].localeCompare(a[0]))
+    .slice(0, days)
+    .map(([day, usage]) => ({ day, usage }));
+};
+
+export const formatTokens = (tokens: number): string => {
+  return tokens >= 10000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+};
+
+export const formatCost = (costUsd: number): string => {
+  return costUsd > 0 ? `$${costUsd < 0.01 ? costUsd.toFixed(4) : costUsd.toFixed(2)}` : '';
+};
+
+export const formatUsage = (usage: TokenUsage): string => {
+  return [`${formatTokens(usage.totalTokens)} tokens`, formatCost(usage.costUsd)].filter(part => part).join(' · ');
+};
@@ -0,0 +1,23 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Interaction } from './types';
+import { lookupVerdict, rememberVerdict, toVerdictKey } from './verdictCache';
+
+const ruling = (content: string, status: 'Yes' | 'No'): Interaction => ({ type: 'question', content, response: status, status });
+
+test('a repeated question gets the cached verdict whatever its case and punctuation', () => {
+  const cache = rememberVerdict({}, ruling('Was the knight poisoned?', 'Yes'));
+  assert.equal(lookupVerdict(cache, 'was the knight  POISONED')?.status, 'Yes');
+});
+
+test('questions that differ only in pronouns do not share a verdict', () => {
+  assert.notEqual(toVerdictKey('Did he kill her?'), toVerdictKey('Did she kill him?'));
+  const cache = rememberVerdict({}, ruling('Did he kill her?', 'Yes'));
+  assert.equal(lookupVerdict(cache, 'Did she kill him?'), null);
+});
+
+test('questions that differ only in prepositions do not share a verdict', () => {
+  assert.notEqual(toVerdictKey('Did he ride to the castle?'), toVerdictKey('Did he ride from the castle?'));
+  const cache = rememberVerdict({}, ruling('Did he ride to the castle?', 'No'));
+  assert.equal(lookupVerdict(cache, 'Did he ride from the castle?'), null);
+});
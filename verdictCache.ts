@@ -0,0 +1,55 @@
+import { Interaction } from "./types";
+import { QuestionStatus } from "./consistency";
+import { normalizeText } from "./textMatching";
+
+// Question verdicts for the open case, so the same inquiry always gets the same answer without another model call
+
+export interface CachedVerdict {
+  status: QuestionStatus;
+  response: string;
+  factIndexes: number[];
+}
+
+// Keyed on the normalized question; one cache belongs to one case
+export type VerdictCache = Record<string, CachedVerdict>;
+
+const CACHEABLE_STATUSES: QuestionStatus[] = ['Yes', 'No', 'Irrelevant'];
+
+// Every word counts: pronouns and prepositions change the answer ("Did he kill her?" is not "Did she kill him?"),
+// so only case, punctuation and spacing are ignored
+export const toVerdictKey = (question: string): string => normalizeText(question);
+
+export const lookupVerdict = (cache: VerdictCache, question: string): Interaction | null => {
+  const verdict = cache[toVerdictKey(question)];
+  if (!verdict) return null;
+  return {
+    type: 'question',
+    content: question,
+    response: verdict.response,
+    status: verdict.status,
+    factIndexes: verdict.factIndexes,
+    cached: true
+  };
+};
+
+// Adds a fresh ruling; an amendment also drops the cached verdict it overrides
+export const rememberVerdict = (cache: VerdictCache, interaction: Interaction): VerdictCache => {
+  if (interaction.type !== 'question' || interaction.refused || interaction.cached) return cache;
+  if (!CACHEABLE_STATUSES.includes(interaction.status as QuestionStatus)) return cache;
+
+  const next: VerdictCache = { ...cache };
+  if (interaction.amends !== undefined) {
+    delete next[toVerdictKey(interaction.amends)];
+  }
+  next[toVerdictKey(interaction.content)] = {
+    status: interaction.status as QuestionStatus,
+    response: interaction.amends !== undefined ? '' : interaction.response, // The amendment note only belongs on the first ruling
+    factIndexes: interaction.factIndexes ?? []
+  };
+  return next;
+};
+
+// Rebuilds the cache from an Inquiry Log, for sessions read back from a save slot
+export const buildVerdictCache = (history: Interaction[]): VerdictCache => {
+  return history.reduce(rememberVerdict, {} as VerdictCache);
+};
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+// Settings the browser bundle may read; everything else stays on the server
+interface ImportMetaEnv {
+  readonly VITE_REQUEST_TIMEOUT_MS?: string;
+}
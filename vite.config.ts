@@ -1,19 +1,37 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, normalizePath, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createDefaultGameMaster, createDefaultRoutingSettings } from './server/setup';
+import { createGameMasterHandler } from './server/httpHandler';
+
+// Serves the game master API from the dev and preview servers, so the truth and the key stay in Node
+const gameMasterPlugin = (): Plugin => ({
+  name: 'kingdom-secrets-game-master',
+  configureServer(server) {
+    server.middlewares.use(createGameMasterHandler(createDefaultGameMaster(__dirname), createDefaultRoutingSettings(__dirname)));
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(createGameMasterHandler(createDefaultGameMaster(__dirname), createDefaultRoutingSettings(__dirname)));
+  }
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Server-side settings (GEMINI_API_KEY, ORACLE_PROVIDER) are read from process.env by the game master
+    Object.entries(env).forEach(([key, value]) => {
+      if (process.env[key] === undefined) process.env[key] = value;
+    });
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        fs: {
+          // The project root is served to the network: keep out the packs (every truth in them) and the server's files,
+          // along with Vite's own defaults
+          deny: ['.env', '.env.*', '*.{crt,pem}', '**/.git/**', `${normalizePath(path.resolve(__dirname, 'packs'))}/**`, 'model-routing.json', 'usage-ledger.json', 'open-cases.json'],
+        },
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env['GEMINI_API_KEY']),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env['GEMINI_API_KEY'])
-      },
+      plugins: [react(), gameMasterPlugin()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),